@@ -1,8 +1,21 @@
-import { describe, test, expect } from "bun:test";
+import { describe, test, expect, spyOn } from "bun:test";
 import {
 	type Result, type MaybeResult,
-	ok, isOk, isGone, nil, isNil, err, isErr, maybe, result, task, flow
+	ok, isOk, isGone, nil, isNil, err, isErr, maybe, result, task, flow, pipe,
+	all, any, collect, partition, mapConcurrent, allTasks, raceTasks, anyTask,
+	type Clock, retry, TimeoutError, timeout, gen, genAsync, defineError, isTagged,
+	ContextError, causes, formatError, registerError, toJSON, fromJSON, serialize, deserialize,
+	ValidationError, validate,
+	string, boolean, number, literal, array, object, optional, union,
+	match, matchStrict, setOwnership, getOwnership,
+	CLONE, tryClone, registerCloner, registerImmutable,
+	AsyncResult, asyncResult, isAsyncResult, observe, SpanRecorder,
+	ReleaseError, bracket, resource,
+	mapResults, filterOk, takeUntilErr, collectResults, mapResultsStream, filterOkStream, takeUntilErrStream,
+	fromCallback, toPromise, fromUnion, toUnion,
+	zip, zipWith, lift
 } from "./index";
+import { equals } from "./testing";
 
 /* === Types === */
 
@@ -41,6 +54,40 @@ const successfulTask = () => Promise.resolve(10);
 const nullTask = () => Promise.resolve(null);
 const failingTask = () => Promise.reject(new Error("Task failed"));
 
+// Fake clock: timers fire when time is advanced with tick(), or right away with auto; delays records all scheduled delays
+const fakeClock = ({ auto = false } = {}) => {
+	let time = 0;
+	let nextId = 0;
+	const timers = new Map<number, { at: number, fn: () => void }>();
+	const delays: number[] = [];
+	const clock: Clock = {
+		now: () => time,
+		setTimeout: (fn, ms) => {
+			const id = ++nextId;
+			delays.push(ms);
+			if (auto) {
+				time += ms;
+				fn();
+			} else {
+				timers.set(id, { at: time + ms, fn });
+			}
+			return id;
+		},
+		clearTimeout: id => { timers.delete(id); },
+	};
+	const advance = (ms: number) => { time += ms; };
+	const tick = async (ms: number) => {
+		advance(ms);
+		for (const [id, timer] of [...timers].sort(([, a], [, b]) => a.at - b.at)) {
+			if (timer.at > time) continue;
+			timers.delete(id);
+			timer.fn();
+		}
+		await new Promise(resolve => setTimeout(resolve, 0));
+	};
+	return { clock, advance, tick, delays, pending: () => timers.size };
+};
+
 /* === Tests === */
 
 describe("Ok Use Case", () => {
@@ -857,4 +904,1834 @@ describe("Flow Function", () => {
         expect(isErr(res)).toBe(true); // Flow rejects with Err
 		expect(() => res.get()).toThrow("Error in second stage"); // Ensure the error is properly thrown
 	});
+});
+
+// Tests for typed error channel
+
+describe("Typed Error Channel", () => {
+	class ValidationError extends Error { field = "name" }
+	class NotFoundError extends Error { id = 42 }
+
+	const load = (n: number): Result<number, ValidationError | NotFoundError> =>
+		n > 0 ? ok(n)
+			: n === 0 ? err(new NotFoundError("Not found"))
+			: err(new ValidationError("Invalid"))
+
+	test("err() keeps the type of the passed in error", () => {
+		const e = err(new ValidationError("Invalid"));
+		expect(e.error).toBeInstanceOf(ValidationError);
+		expect(e.error.field).toBe("name");
+	});
+
+	test("Ok.chain() carries the error type of the chained function", () => {
+		const res = ok(0).chain(load);
+		expect(isErr(res)).toBe(true);
+		if (isErr(res)) {
+			expect(res.error).toBeInstanceOf(NotFoundError);
+			if (res.error instanceof NotFoundError) expect(res.error.id).toBe(42);
+		}
+	});
+
+	test("Err.catch() receives the typed error", () => {
+		const res = ok(-1).chain(load).catch(error =>
+			error instanceof ValidationError ? ok(error.field) : err(error)
+		);
+		expect(isOk(res)).toBe(true);
+		expect(res.get()).toBe("name");
+	});
+
+	test("task() and flow() carry the error type", async () => {
+		const fetchIt = async (n: number): Promise<Result<number, NotFoundError>> =>
+			n ? ok(n) : err(new NotFoundError("Not found"));
+		const res1 = await task(fetchIt, 0);
+		expect(isErr(res1) && res1.error.id).toBe(42);
+		const res2 = await flow(0, fetchIt);
+		expect(isErr(res2) && res2.error instanceof NotFoundError).toBe(true);
+	});
+});
+
+// Tests for collection combinators
+
+describe("Collection Combinators", () => {
+	test("all() collects Ok values of an array", () => {
+		const res = all([ok(1), ok(2), ok(3)]);
+		expect(isOk(res)).toBe(true);
+		expect(res.get()).toEqual([1, 2, 3]);
+	});
+
+	test("all() collects Ok values of a record", () => {
+		const res = all({ a: ok(1), b: ok("two") });
+		expect(isOk(res)).toBe(true);
+		expect(res.get()).toEqual({ a: 1, b: "two" });
+	});
+
+	test("all() returns the first Err, even after a Nil", () => {
+		const res = all([ok(1), nil(), err("First"), err("Second")]);
+		expect(isErr(res)).toBe(true);
+		expect(() => res.get()).toThrow("First");
+	});
+
+	test("all() treats Nil members as failure", () => {
+		expect(isNil(all([ok(1), nil()]))).toBe(true);
+		expect(isNil(all({ a: ok(1), b: nil() }))).toBe(true);
+	});
+
+	test("all() with no members returns Ok of an empty array", () => {
+		const res = all([]);
+		expect(isOk(res)).toBe(true);
+		expect(res.get()).toEqual([]);
+	});
+
+	test("any() returns the first Ok and skips Nil", () => {
+		const res = any([nil(), err("Failed"), ok(2), ok(3)]);
+		expect(isOk(res)).toBe(true);
+		expect(res.get()).toBe(2);
+	});
+
+	test("any() collects errors into an AggregateError if nothing succeeded", () => {
+		const res = any([err("First"), nil(), err("Second")]);
+		expect(isErr(res)).toBe(true);
+		if (isErr(res)) {
+			expect(res.error).toBeInstanceOf(AggregateError);
+			expect(res.error.errors.map((e: Error) => e.message)).toEqual(["First", "Second"]);
+		}
+	});
+
+	test("any() returns Nil if all members are Nil", () => {
+		expect(isNil(any([nil(), nil()]))).toBe(true);
+		expect(isNil(any([]))).toBe(true);
+	});
+
+	test("collect() skips Nil members", () => {
+		const res = collect([ok(1), nil(), ok(3)]);
+		expect(isOk(res)).toBe(true);
+		expect(res.get()).toEqual([1, 3]);
+	});
+
+	test("collect() returns the first Err", () => {
+		const res = collect([ok(1), err("Failed"), nil()]);
+		expect(isErr(res)).toBe(true);
+		expect(() => res.get()).toThrow("Failed");
+	});
+
+	test("partition() splits values, nils and errors", () => {
+		const { oks, nils, errs } = partition([ok(1), nil(), err("Failed"), ok(2), nil()]);
+		expect(oks).toEqual([1, 2]);
+		expect(nils).toBe(2);
+		expect(errs.map(e => e.message)).toEqual(["Failed"]);
+	});
+});
+
+// Tests for concurrent tasks
+
+describe("Concurrent Tasks", () => {
+	const delay = <T>(ms: number, value: T): Promise<T> =>
+		new Promise(resolve => setTimeout(() => resolve(value), ms));
+	const fail = (ms: number, message: string): Promise<never> =>
+		new Promise((_, reject) => setTimeout(() => reject(new Error(message)), ms));
+
+	test("mapConcurrent() keeps item order", async () => {
+		const res = await mapConcurrent([30, 10, 20], ms => delay(ms, ms * 2));
+		expect(isOk(res)).toBe(true);
+		expect(res.get()).toEqual([60, 20, 40]);
+	});
+
+	test("mapConcurrent() respects the concurrency limit", async () => {
+		let running = 0;
+		let peak = 0;
+		const res = await mapConcurrent([1, 2, 3, 4, 5, 6], async x => {
+			peak = Math.max(peak, ++running);
+			await delay(5, null);
+			running--;
+			return x;
+		}, { concurrency: 2 });
+		expect(peak).toBe(2);
+		expect(res.get()).toEqual([1, 2, 3, 4, 5, 6]);
+	});
+
+	test("mapConcurrent() runs one task at a time with an invalid concurrency limit", async () => {
+		for (const concurrency of [NaN, 0, -2, 0.5]) {
+			let running = 0;
+			let maxRunning = 0;
+			const res = await mapConcurrent([1, 2, 3], async x => {
+				maxRunning = Math.max(maxRunning, ++running);
+				await delay(1, x);
+				running--;
+				return x;
+			}, { concurrency });
+			expect(res.get()).toEqual([1, 2, 3]);
+			expect(maxRunning).toBe(1);
+		}
+	});
+
+	test("mapConcurrent() fails fast and stops starting new items", async () => {
+		const started: number[] = [];
+		const res = await mapConcurrent([1, 2, 3, 4], async x => {
+			started.push(x);
+			return x === 2 ? fail(1, "Item 2 failed") : delay(1, x);
+		}, { concurrency: 1 });
+		expect(isErr(res)).toBe(true);
+		if (isErr(res)) {
+			expect(res.error).toBeInstanceOf(AggregateError);
+			expect(res.error.errors.map((e: Error) => e.message)).toEqual(["Item 2 failed"]);
+		}
+		expect(started).toEqual([1, 2]);
+	});
+
+	test("allTasks() settles all tasks and collects all errors if not failing fast", async () => {
+		const res = await allTasks([
+			() => fail(10, "First"),
+			() => delay(1, 2),
+			() => fail(1, "Second"),
+		], { failFast: false });
+		expect(isErr(res)).toBe(true);
+		if (isErr(res))
+			expect(res.error.errors.map((e: Error) => e.message)).toEqual(["First", "Second"]);
+	});
+
+	test("allTasks() resolves to Nil if a task resolves to Nil", async () => {
+		const res = await allTasks([() => delay(1, 1), () => delay(1, null)]);
+		expect(isNil(res)).toBe(true);
+	});
+
+	test("allTasks() with no tasks resolves to Ok of an empty array", async () => {
+		const res = await allTasks([]);
+		expect(res.get()).toEqual([]);
+	});
+
+	test("raceTasks() resolves to the first settled Result", async () => {
+		const res1 = await raceTasks([() => delay(20, 1), () => delay(1, 2)]);
+		expect(res1.get()).toBe(2);
+		const res2 = await raceTasks([() => delay(20, 1), () => fail(1, "Fast failure")]);
+		expect(isErr(res2)).toBe(true);
+		expect(isNil(await raceTasks([]))).toBe(true);
+	});
+
+	test("anyTask() resolves to the first Ok", async () => {
+		const res = await anyTask([() => fail(1, "Failed"), () => delay(20, 1), () => delay(5, 2)]);
+		expect(res.get()).toBe(2);
+	});
+
+	test("anyTask() collects errors if no task succeeded", async () => {
+		const res = await anyTask([() => fail(5, "First"), () => delay(1, null), () => fail(1, "Second")]);
+		expect(isErr(res)).toBe(true);
+		if (isErr(res))
+			expect(res.error.errors.map((e: Error) => e.message)).toEqual(["First", "Second"]);
+	});
+});
+
+// Tests for retry()
+
+describe("Retry Function", () => {
+	const failTimes = (times: number, value = "done") => {
+		let calls = 0;
+		return async () => {
+			if (++calls <= times) throw new Error(`Attempt ${calls} failed`);
+			return value;
+		};
+	};
+
+	test("retry() resolves to Ok if an attempt succeeds", async () => {
+		const { clock, delays } = fakeClock({ auto: true });
+		const res = await retry(failTimes(2), { clock, jitter: 0 });
+		expect(isOk(res)).toBe(true);
+		expect(res.get()).toBe("done");
+		expect(delays).toEqual([100, 200]);
+	});
+
+	test("retry() resolves to the last Err with the history of all attempts", async () => {
+		const res = await retry(failTimes(5), { attempts: 3, clock: fakeClock({ auto: true }).clock });
+		expect(isErr(res)).toBe(true);
+		if (isErr(res)) {
+			expect(res.error.message).toBe("Attempt 3 failed");
+			expect(res.error.history.map(e => e.message))
+				.toEqual(["Attempt 1 failed", "Attempt 2 failed", "Attempt 3 failed"]);
+			expect(res.error.history.at(-1)).toBe(res.error);
+			expect(Object.keys(res.error)).not.toContain("history");
+		}
+	});
+
+	test("retry() uses exponential backoff with jitter and maximum delay", async () => {
+		const { clock, delays } = fakeClock({ auto: true });
+		await retry(failTimes(5), {
+			attempts: 5,
+			delay: 100,
+			factor: 3,
+			maxDelay: 1000,
+			jitter: 0.5,
+			random: () => 0.5,
+			clock,
+		});
+		expect(delays).toEqual([75, 225, 675, 750]);
+	});
+
+	test("retry() stops at errors that are not retryable", async () => {
+		let calls = 0;
+		const res = await retry(async () => {
+			calls++;
+			throw new TypeError("Not retryable");
+		}, { retryIf: error => !(error instanceof TypeError), clock: fakeClock({ auto: true }).clock });
+		expect(calls).toBe(1);
+		expect(isErr(res) && res.error).toBeInstanceOf(TypeError);
+		expect(isErr(res) && res.error.history).toHaveLength(1);
+	});
+
+	test("retry() keeps the class and tag of the last error", async () => {
+		class NotFound extends defineError("NotFound") {}
+		const res = await retry(async () => err(new NotFound({ message: "Missing" })), { clock: fakeClock({ auto: true }).clock });
+		expect(res.catchTag("NotFound", () => ok("fallback")).get()).toBe("fallback");
+	});
+
+	test("retry() calls onRetry before each retry", async () => {
+		const calls: [string, number, number][] = [];
+		await retry(failTimes(2), {
+			jitter: 0,
+			onRetry: (error, attempt, delay) => calls.push([error.message, attempt, delay]),
+			clock: fakeClock({ auto: true }).clock,
+		});
+		expect(calls).toEqual([["Attempt 1 failed", 1, 100], ["Attempt 2 failed", 2, 200]]);
+	});
+
+	test("retry() returns an AsyncResult", async () => {
+		const pending = retry(failTimes(1), { clock: fakeClock({ auto: true }).clock });
+		expect(isAsyncResult(pending)).toBe(true);
+		expect(await pending.map(v => v.toUpperCase())).toBeOk("DONE");
+	});
+
+	test("retry() resolves to Err if retryIf or onRetry throws", async () => {
+		const { clock } = fakeClock({ auto: true });
+		const failedIf = await retry(failTimes(5), { clock, retryIf: () => { throw new TypeError("retryIf failed"); } });
+		expect(failedIf).toBeErr("retryIf failed");
+		expect(isErr(failedIf) && failedIf.error.history.map(e => e.message)).toEqual(["Attempt 1 failed"]);
+		const failedOn = await retry(failTimes(5), { clock, onRetry: () => { throw new RangeError("onRetry failed"); } });
+		expect(failedOn).toBeErr(RangeError);
+	});
+
+	test("retry() does not retry Nil", async () => {
+		let calls = 0;
+		const res = await retry(async () => { calls++; return null; }, { clock: fakeClock({ auto: true }).clock });
+		expect(isNil(res)).toBe(true);
+		expect(calls).toBe(1);
+	});
+});
+
+// Tests for cancellation with AbortSignal
+
+describe("AbortSignal Cancellation", () => {
+	const delay = <T>(clock: Clock, ms: number, value: T): Promise<T> =>
+		new Promise(resolve => clock.setTimeout(() => resolve(value), ms));
+
+	test("task() resolves to Err with the abort reason if the signal is already aborted", async () => {
+		const controller = new AbortController();
+		controller.abort(new Error("Navigated away"));
+		let called = false;
+		const res = await task(async (_: AbortSignal) => { called = true; return 1; }, controller.signal);
+		expect(called).toBe(false);
+		expect(isErr(res)).toBe(true);
+		expect(() => res.get()).toThrow("Navigated away");
+	});
+
+	test("task() passes the signal on and resolves to Err as soon as it is aborted", async () => {
+		const { clock } = fakeClock();
+		const controller = new AbortController();
+		let received: AbortSignal | undefined;
+		const pending = task(async (ms: number, signal: AbortSignal) => {
+			received = signal;
+			return delay(clock, ms, "late");
+		}, 50, controller.signal);
+		controller.abort();
+		const res = await pending;
+		expect(received).toBe(controller.signal);
+		expect(isErr(res) && res.error.name).toBe("AbortError");
+	});
+
+	test("flow() stops before the next step once aborted", async () => {
+		const controller = new AbortController();
+		const calls: string[] = [];
+		const res = await flow(
+			5,
+			(x: number) => { calls.push("first"); controller.abort(new Error("Stopped")); return x + 1; },
+			(x: number) => { calls.push("second"); return x * 2; },
+			{ signal: controller.signal }
+		);
+		expect(calls).toEqual(["first"]);
+		expect(isErr(res)).toBe(true);
+		expect(() => res.get()).toThrow("Stopped");
+	});
+
+	test("flow() passes the signal to each step and aborts pending async steps", async () => {
+		const { clock, tick } = fakeClock();
+		const controller = new AbortController();
+		const signals: AbortSignal[] = [];
+		const pending = flow(
+			5,
+			(x: number, signal?: AbortSignal) => { signals.push(signal!); return x + 1; },
+			async (x: number, signal?: AbortSignal) => { signals.push(signal!); return delay(clock, 50, x); },
+			{ signal: controller.signal }
+		);
+		await tick(0);
+		controller.abort();
+		const res = await pending;
+		expect(signals).toEqual([controller.signal, controller.signal]);
+		expect(isErr(res) && res.error.name).toBe("AbortError");
+	});
+
+	test("flow() without signal does not pass a second argument to steps", async () => {
+		const res = await flow("10", (s: string, ...rest: unknown[]) => rest.length);
+		expect(res.get()).toBe(0);
+	});
+
+	test("flow() with a trailing undefined step resolves to Err instead of reading it as options", async () => {
+		const res = await flow(1, (x: number) => x + 1, undefined);
+		expect(res).toBeErr(TypeError);
+		expect(res).toBeErr("Expected a function in flow");
+	});
+
+	test("flow() with a trailing non-function step resolves to Err instead of dropping it", async () => {
+		// @ts-expect-error - an Ok is neither a step nor flow options
+		const res = await flow(1, (x: number) => x + 1, ok(5));
+		expect(res).toBeErr("Expected a function in flow");
+	});
+
+	test("Ok.await() passes the signal on and resolves to Err once aborted", async () => {
+		const { clock } = fakeClock();
+		const controller = new AbortController();
+		const pending = ok(5).await(async (x, signal) => {
+			expect(signal).toBe(controller.signal);
+			return delay(clock, 50, x);
+		}, controller.signal);
+		controller.abort();
+		const res = await pending;
+		expect(isErr(res)).toBe(true);
+	});
+});
+
+// Tests for timeouts and deadlines
+
+describe("Timeouts and Deadlines", () => {
+	const deferred = <T>() => {
+		let resolve!: (value: T) => void;
+		const promise = new Promise<T>(res => { resolve = res; });
+		return { promise, resolve };
+	};
+
+	test("timeout() resolves to Err<TimeoutError> when time runs out", async () => {
+		const { clock, tick } = fakeClock();
+		const { promise } = deferred<number>();
+		const pending = task(timeout(100, clock)(() => promise));
+		await tick(100);
+		const res = await pending;
+		expect(isErr(res)).toBe(true);
+		if (isErr(res)) {
+			expect(res.error).toBeInstanceOf(TimeoutError);
+			expect((res.error as TimeoutError).ms).toBe(100);
+		}
+	});
+
+	test("timeout() resolves to the result if it settles in time and clears the timer", async () => {
+		const { clock, tick, pending } = fakeClock();
+		const { promise, resolve } = deferred<number>();
+		const running = timeout(100, clock)(() => promise)();
+		await tick(50);
+		resolve(42);
+		const res = await running;
+		expect(res.get()).toBe(42);
+		expect(pending()).toBe(0);
+	});
+
+	test("timeout() aborts the signal passed to the wrapped function", async () => {
+		const { clock, tick } = fakeClock();
+		const controller = new AbortController();
+		let received: AbortSignal | undefined;
+		const running = timeout(100, clock)(async (signal: AbortSignal) => {
+			received = signal;
+			return deferred<number>().promise;
+		})(controller.signal);
+		await tick(100);
+		await running;
+		expect(received).not.toBe(controller.signal);
+		expect(received?.aborted).toBe(true);
+		expect(received?.reason).toBeInstanceOf(TimeoutError);
+	});
+
+	test("timeout() appends its signal if none is among the arguments", async () => {
+		const { clock, tick } = fakeClock();
+		let received: AbortSignal | undefined;
+		const running = flow(5, timeout(100, clock)(async (_: number, signal?: AbortSignal) => {
+			received = signal;
+			return deferred<number>().promise;
+		}));
+		await tick(0);
+		expect(received?.aborted).toBe(false);
+		await tick(100);
+		expect(await running).toBeErr(TimeoutError);
+		expect(received?.aborted).toBe(true);
+		expect(received?.reason).toBeInstanceOf(TimeoutError);
+	});
+
+	test("timeout() works as a step in flow()", async () => {
+		const { clock, tick } = fakeClock();
+		const { promise } = deferred<number>();
+		const running = flow(5, double, timeout(100, clock)(async (_: number) => promise), half);
+		await tick(0);
+		await tick(100);
+		const res = await running;
+		expect(isErr(res) && res.error instanceof TimeoutError).toBe(true);
+	});
+
+	test("flow() deadline is shared across all steps", async () => {
+		const { clock, tick } = fakeClock();
+		const first = deferred<number>();
+		const second = deferred<number>();
+		const calls: string[] = [];
+		const running = flow(
+			5,
+			async (_: number) => { calls.push("first"); return first.promise; },
+			async (_: number) => { calls.push("second"); return second.promise; },
+			(x: number) => { calls.push("third"); return x; },
+			{ deadline: 100, clock }
+		);
+		await tick(60);
+		first.resolve(1);
+		await tick(0);
+		await tick(40);
+		const res = await running;
+		expect(calls).toEqual(["first", "second"]);
+		expect(isErr(res) && res.error instanceof TimeoutError).toBe(true);
+	});
+
+	test("flow() deadline clears its timer when the flow settles in time", async () => {
+		const { clock, pending } = fakeClock();
+		const res = await flow(5, double, async (x: number) => x + 1, { deadline: 100, clock });
+		expect(res.get()).toBe(11);
+		expect(pending()).toBe(0);
+	});
+});
+
+// Tests for gen() and genAsync()
+
+describe("Generator Do-Notation", () => {
+	const parse = (s: string): Result<number> => result(() => {
+		const n = Number(s);
+		if (Number.isNaN(n)) throw new Error(`Not a number: ${s}`);
+		return n;
+	});
+	const load = async (n: number): Promise<Result<string>> => n > 0 ? ok(`Item ${n}`) : nil();
+
+	test("gen() returns the returned value wrapped in Ok", () => {
+		const res = gen(function* () {
+			const a = yield* parse("2");
+			const b = yield* parse("3");
+			return a * b;
+		});
+		expect(isOk(res)).toBe(true);
+		expect(res.get()).toBe(6);
+	});
+
+	test("gen() short-circuits on the first Err", () => {
+		const calls: string[] = [];
+		const res = gen(function* () {
+			const a = yield* parse("x");
+			calls.push("after parse");
+			return a;
+		});
+		expect(isErr(res)).toBe(true);
+		expect(() => res.get()).toThrow("Not a number: x");
+		expect(calls).toEqual([]);
+	});
+
+	test("gen() short-circuits on Nil and runs finally blocks", () => {
+		let cleanedUp = false;
+		const res = gen(function* () {
+			try {
+				yield* nil();
+				return 1;
+			} finally {
+				cleanedUp = true;
+			}
+		});
+		expect(isNil(res)).toBe(true);
+		expect(cleanedUp).toBe(true);
+	});
+
+	test("gen() captures thrown errors as Err", () => {
+		const res = gen(function* () {
+			yield* ok(1);
+			throw new Error("Thrown inside");
+		});
+		expect(isErr(res)).toBe(true);
+		expect(() => res.get()).toThrow("Thrown inside");
+	});
+
+	test("gen() wraps a returned Result", () => {
+		const res = gen(function* () {
+			const a = yield* ok(5);
+			return a > 3 ? err("Too big") : ok(a);
+		});
+		expect(isErr(res)).toBe(true);
+	});
+
+	test("genAsync() awaits Results and short-circuits", async () => {
+		const res1 = await genAsync(async function* () {
+			const a = yield* parse("2");
+			const b = yield* await load(a);
+			return `${b}!`;
+		});
+		expect(res1.get()).toBe("Item 2!");
+		const res2 = await genAsync(async function* () {
+			const b = yield* await load(0);
+			return b.length;
+		});
+		expect(isNil(res2)).toBe(true);
+	});
+
+	test("genAsync() captures rejected promises as Err", async () => {
+		const res = await genAsync(async function* () {
+			const a = yield* await task(failingTask);
+			return a;
+		});
+		expect(isErr(res)).toBe(true);
+		expect(() => res.get()).toThrow("Task failed");
+	});
+});
+
+// Tests for step-by-step type inference in flow()
+
+describe("Flow Type Inference", () => {
+	test("flow() passes changing types from step to step", async () => {
+		const res = await flow(
+			"5",
+			s => parseInt(s, 10),
+			n => ok(n * 2),
+			async n => `${n} items`,
+			s => s.length
+		);
+		expect(res.get()).toBe(8);
+	});
+
+	test("flow() unwraps Promises returned by non-async functions", async () => {
+		const res = await flow(
+			5,
+			x => Promise.resolve(ok(x + 1)),
+			x => x * 2
+		);
+		expect(res.get()).toBe(12);
+	});
+
+	test("flow() awaits a Promise seed before the first step", async () => {
+		const res = await flow(Promise.resolve(5), (x: number) => x + 1);
+		expect(res.get()).toBe(6);
+		const failed = await flow(Promise.reject(new Error("No seed")), (x: number) => x + 1);
+		expect(isErr(failed) && failed.error.message).toBe("No seed");
+	});
+
+	test("flow() stops at the first step resulting in Nil", async () => {
+		const calls: number[] = [];
+		const res = await flow(
+			1,
+			x => x > 0 ? null : x,
+			(y: number) => { calls.push(y); return y.toFixed(); }
+		);
+		expect(res).toBeNil();
+		expect(calls).toEqual([]);
+		const fromSeed = await flow(Promise.resolve(null), (y: number) => { calls.push(y); return y; });
+		expect(fromSeed).toBeNil();
+		expect(calls).toEqual([]);
+		const async = await flow(1, async () => nil(), (y: number) => { calls.push(y); return y; });
+		expect(async).toBeNil();
+		expect(calls).toEqual([]);
+	});
+
+	test("flow() carries declared error types of all steps", async () => {
+		class ParseError extends Error { input = "" }
+		const parse = (s: string): Result<number, ParseError> => {
+			const n = Number(s);
+			if (!Number.isNaN(n)) return ok(n);
+			const error = new ParseError(`Not a number: ${s}`);
+			error.input = s;
+			return err(error);
+		};
+		const res = await flow("x", parse, n => n + 1);
+		expect(isErr(res)).toBe(true);
+		if (isErr(res)) expect(res.error.input).toBe("x");
+	});
+
+	test("flow() with a seed function passes its value to the first step", async () => {
+		const res = await flow(async () => ok([1, 2, 3]), list => list.length);
+		expect(res.get()).toBe(3);
+	});
+});
+
+// Tests for pipe()
+
+describe("Pipe Function", () => {
+	const parse = (s: string): Result<number> => result(() => {
+		const n = Number(s);
+		if (Number.isNaN(n)) throw new Error(`Not a number: ${s}`);
+		return n;
+	});
+
+	test("pipe() defines a pipeline that runs when called", () => {
+		const calls: number[] = [];
+		const pipeline = pipe(parse, (n: number) => { calls.push(n); return n * 2; });
+		expect(calls).toEqual([]);
+		expect(pipeline("5").get()).toBe(10);
+		expect(pipeline("6").get()).toBe(12);
+		expect(calls).toEqual([5, 6]);
+	});
+
+	test("pipe() returns a Result directly if all steps are synchronous", () => {
+		const res = pipe(parse, double)("x");
+		expect(res).not.toBeInstanceOf(Promise);
+		expect(isErr(res)).toBe(true);
+		expect(() => res.get()).toThrow("Not a number: x");
+	});
+
+	test("pipe() returns a Promise as soon as a step is async", async () => {
+		const pipeline = pipe(parse, async (n: number) => n + 1, double);
+		const pending = pipeline("4");
+		expect(pending).toBeInstanceOf(Promise);
+		expect((await pending).get()).toBe(10);
+	});
+
+	test("pipe() stops at the first step resulting in Nil", () => {
+		const calls: number[] = [];
+		const pipeline = pipe((n: number) => n > 0 ? undefined : n, (n: number) => { calls.push(n); return n; });
+		expect(pipeline(1)).toBeNil();
+		expect(pipeline(0).get()).toBe(0);
+		expect(calls).toEqual([0]);
+	});
+
+	test("pipe() pipelines can be used as steps in pipelines and flows", async () => {
+		const parseAndDouble = pipe(parse, double);
+		const label = pipe(parseAndDouble, (n: number) => `Value: ${n}`);
+		expect(label("21").get()).toBe("Value: 42");
+		const res = await flow("3", parseAndDouble, async (n: number) => n + 1);
+		expect(res.get()).toBe(7);
+	});
+
+	test("pipe() passes the signal to each step and stops once aborted", () => {
+		const controller = new AbortController();
+		const calls: string[] = [];
+		const pipeline = pipe(
+			(n: number, signal?: AbortSignal) => { calls.push("first"); expect(signal).toBe(controller.signal); controller.abort(); return n; },
+			(n: number) => { calls.push("second"); return n; }
+		);
+		const res = pipeline(1, controller.signal);
+		expect(calls).toEqual(["first"]);
+		expect(isErr(res)).toBe(true);
+	});
+});
+
+// Tests for tagged errors
+
+describe("Tagged Errors", () => {
+	const NotFound = defineError("NotFound", ({ id }: { id: string }) => `Not found: ${id}`);
+	class Invalid extends defineError<"Invalid", { field: string }>("Invalid") {}
+	const Unknown = defineError("Unknown");
+
+	const load = (id: string): Result<number, InstanceType<typeof NotFound> | Invalid> =>
+		id === "missing" ? err(new NotFound({ id }))
+			: id === "" ? err(new Invalid({ field: "id", message: "Empty id" }))
+			: ok(id.length);
+
+	test("defineError() creates Error subclasses with tag and payload fields", () => {
+		const error = new NotFound({ id: "42" });
+		expect(error).toBeInstanceOf(Error);
+		expect(error).toBeInstanceOf(NotFound);
+		expect(error._tag).toBe("NotFound");
+		expect(error.name).toBe("NotFound");
+		expect(error.id).toBe("42");
+		expect(error.message).toBe("Not found: 42");
+		expect(NotFound.tag).toBe("NotFound");
+	});
+
+	test("defineError() accepts message and cause", () => {
+		const cause = new Error("Root cause");
+		const error = new Unknown({ message: "Something happened", cause });
+		expect(error.message).toBe("Something happened");
+		expect(error.cause).toBe(cause);
+		expect(new Unknown().message).toBe("Unknown");
+	});
+
+	test("isTagged() checks for tagged errors", () => {
+		expect(isTagged(new NotFound({ id: "1" }))).toBe(true);
+		expect(isTagged(new NotFound({ id: "1" }), "NotFound")).toBe(true);
+		expect(isTagged(new NotFound({ id: "1" }), "Invalid")).toBe(false);
+		expect(isTagged(new Error("Plain"))).toBe(false);
+	});
+
+	test("catchTag() recovers only errors with the given tag", () => {
+		const recovered = load("missing").catchTag("NotFound", error => ok(`Fallback for ${error.id}`));
+		expect(recovered.get()).toBe("Fallback for missing");
+		const passed = load("").catchTag("NotFound", () => ok("Fallback"));
+		expect(isErr(passed)).toBe(true);
+		expect(() => passed.get()).toThrow("Empty id");
+	});
+
+	test("catchIf() recovers only instances of the given class", () => {
+		const recovered = load("").catchIf(Invalid, error => ok(error.field));
+		expect(recovered.get()).toBe("id");
+		const passed = load("missing").catchIf(Invalid, () => ok("Fallback"));
+		expect(isErr(passed) && passed.error._tag).toBe("NotFound");
+	});
+
+	test("catchTag() and catchIf() are no-ops on Ok and Nil", () => {
+		expect(load("abc").catchTag("NotFound", () => ok(0)).get()).toBe(3);
+		expect(isNil(nil().catchIf(Invalid, () => ok(0)))).toBe(true);
+	});
+
+	test("match() dispatches on error tags", () => {
+		const describeError = (id: string) => load(id).match({
+			Ok: value => `Length ${value}`,
+			Err: {
+				NotFound: error => `Missing ${error.id}`,
+				Invalid: error => `Invalid ${error.field}`,
+			},
+		});
+		expect(describeError("abc")).toBe("Length 3");
+		expect(describeError("missing")).toBe("Missing missing");
+		expect(describeError("")).toBe("Invalid id");
+	});
+
+	test("match() passes untagged or unhandled errors through", () => {
+		const res = err("Plain").match({ Err: { NotFound: () => "Handled" } });
+		expect(isErr(res)).toBe(true);
+	});
+});
+
+
+// Tests for Error Context and Cause Chains
+describe("Error Context and Cause Chains", () => {
+	test("context() wraps the error and keeps it as cause", () => {
+		const original = new SyntaxError("Unexpected token");
+		const res = err(original).context("loading user profile");
+		expect(res.error).toBeInstanceOf(ContextError);
+		expect(res.error.message).toBe("loading user profile");
+		expect(res.error.cause).toBe(original);
+	});
+
+	test("context() and mapErr() are no-ops on Ok and Nil", () => {
+		expect(ok(1).context("loading").get()).toBe(1);
+		expect(ok(1).mapErr(() => new Error("Mapped")).get()).toBe(1);
+		expect(isNil(nil().context("loading"))).toBe(true);
+		expect(isNil(nil().mapErr(() => new Error("Mapped")))).toBe(true);
+	});
+
+	test("context() can be called on a Result from flow()", async () => {
+		const res = (await flow(() => { throw new Error("Network down") })).context("fetching data");
+		expect(isErr(res)).toBe(true);
+		if (isErr(res)) expect(causes(res.error).map(e => (e as Error).message))
+			.toEqual(["fetching data", "Network down"]);
+	});
+
+	test("mapErr() sets the original error as cause unless the new error has one", () => {
+		const original = new Error("Original");
+		const mapped = err(original).mapErr(e => new TypeError(`Mapped: ${e.message}`));
+		expect(mapped.error).toBeInstanceOf(TypeError);
+		expect(mapped.error.cause).toBe(original);
+		const other = new Error("Other");
+		const withCause = err(original).mapErr(() => new Error("Explicit", { cause: other }));
+		expect(withCause.error.cause).toBe(other);
+	});
+
+	test("causes() follows the cause chain and stops on cycles", () => {
+		const a = new Error("A");
+		const b = new Error("B", { cause: a });
+		a.cause = b;
+		expect(causes(b)).toEqual([b, a]);
+		expect(causes(new Error("C", { cause: "reason" }))).toHaveLength(2);
+	});
+
+	test("formatError() prints the cause chain as plain text", () => {
+		const res = err(new Error("Disk full")).context("saving file").context("exporting report");
+		expect(formatError(res.error, { stack: false })).toBe(
+			"ContextError: exporting report\nCaused by: ContextError: saving file\nCaused by: Error: Disk full"
+		);
+		expect(formatError(res.error)).toContain("Caused by: Error: Disk full\n    at ");
+	});
+
+	test("formatError() prints the cause chain as structured JSON", () => {
+		const error = new AggregateError([new Error("Inner")], "Outer", { cause: new Error("Root") });
+		const json = JSON.parse(formatError(error, { format: "json", stack: false }));
+		expect(json).toEqual({
+			name: "AggregateError",
+			message: "Outer",
+			cause: { name: "Error", message: "Root" },
+			errors: [{ name: "Error", message: "Inner" }],
+		});
+	});
+});
+
+// Tests for Serialization
+describe("Serialization", () => {
+	test("JSON.stringify() converts Results into tagged plain objects", () => {
+		expect(JSON.parse(JSON.stringify(ok({ id: 1 })))).toEqual({ type: "ok", value: { id: 1 } });
+		expect(JSON.parse(JSON.stringify(nil()))).toEqual({ type: "nil" });
+		expect(JSON.parse(JSON.stringify(err(new TypeError("Bad"))))).toEqual({
+			type: "err", error: { name: "TypeError", message: "Bad" }
+		});
+	});
+
+	test("toJSON() includes stack traces only if requested", () => {
+		const res = err(new Error("Failed"));
+		const json = toJSON(res);
+		expect(json.type === "err" && "stack" in json.error).toBe(false);
+		const withStack = toJSON(res, { stack: true });
+		expect(withStack.type === "err" && withStack.error.stack).toContain("Error: Failed");
+	});
+
+	test("toJSON() output survives structuredClone()", () => {
+		const res = fromJSON<number[]>(structuredClone(toJSON(ok([1, 2, 3]))));
+		expect(res.get()).toEqual([1, 2, 3]);
+	});
+
+	test("serialize() and deserialize() round-trip Ok, Nil and Err", () => {
+		expect(deserialize(serialize(ok(42))).get()).toBe(42);
+		expect(deserialize(serialize(42)).get()).toBe(42);
+		expect(isNil(deserialize(serialize(nil())))).toBe(true);
+		const res = deserialize(serialize(err(new RangeError("Out of range"))));
+		expect(res).toBeErr(RangeError);
+		expect(res).toBeErr("Out of range");
+	});
+
+	test("deserialize() rebuilds cause chains and library errors", () => {
+		const original = err(new TimeoutError(100)).context("loading");
+		const res = deserialize(serialize(original));
+		expect(res).toBeErr(ContextError);
+		const cause = isErr(res) ? res.error.cause : undefined;
+		expect(cause).toBeInstanceOf(TimeoutError);
+		if (cause instanceof TimeoutError) expect(cause.ms).toBe(100);
+	});
+
+	test("deserialize() rebuilds registered error classes with their fields", () => {
+		const NotFound = defineError<"NotFound", { id: string }>("NotFound");
+		registerError(NotFound);
+		const res = deserialize(serialize(err(new NotFound({ id: "42" }))));
+		expect(res).toBeErr(NotFound);
+		const error = isErr(res) ? res.error : undefined;
+		expect(isTagged(error, "NotFound")).toBe(true);
+		if (error instanceof NotFound) expect(error.id).toBe("42");
+	});
+
+	test("deserialize() keeps the name of unregistered errors", () => {
+		class CustomError extends Error {
+			constructor(message: string) { super(message); this.name = "CustomError"; }
+		}
+		const res = deserialize(serialize(err(new CustomError("Custom"))));
+		expect(res).toBeErr(Error);
+		expect(isErr(res) && res.error.name).toBe("CustomError");
+	});
+
+	test("deserialize() returns Err for invalid input", () => {
+		expect(isErr(deserialize("not json"))).toBe(true);
+		expect(deserialize("null")).toBeErr(TypeError);
+		expect(fromJSON({ type: "unknown" })).toBeErr(TypeError);
+	});
+
+	test("fromJSON() turns an Ok without a value into Nil", () => {
+		expect(isNil(fromJSON({ type: "ok", value: null }))).toBe(true);
+		expect(isNil(fromJSON({ type: "ok" }))).toBe(true);
+		expect(isNil(deserialize('{"type":"ok","value":null}'))).toBe(true);
+	});
+});
+
+// Tests for Validation
+describe("Validation", () => {
+	const required = (value: string) => value ? ok(value) : err(new Error("required"));
+	const positive = (value: number) => value > 0 ? ok(value) : err(new RangeError("must be positive"));
+
+	test("validate() returns Ok with the assembled object if all checks pass", () => {
+		const res = validate({ name: required("Alice"), age: () => positive(30) });
+		expect(res.get()).toEqual({ name: "Alice", age: 30 });
+	});
+
+	test("validate() collects all failures with their paths", () => {
+		const res = validate({ name: required(""), age: () => positive(-1), email: ok("a@b.c") });
+		expect(res).toBeErr(AggregateError);
+		const errors: ValidationError[] = isErr(res) ? res.error.errors : [];
+		expect(errors).toHaveLength(2);
+		expect(errors[0]).toBeInstanceOf(ValidationError);
+		expect(errors.map(e => e.message)).toEqual(["name: required", "age: must be positive"]);
+		expect(errors[1].path).toEqual(["age"]);
+		expect(errors[1].cause).toBeInstanceOf(RangeError);
+	});
+
+	test("validate() captures exceptions thrown by checks", () => {
+		const res = validate({ config: () => JSON.parse("{") });
+		expect(isErr(res) && res.error.errors[0].cause).toBeInstanceOf(SyntaxError);
+	});
+
+	test("validate() flattens nested validations and prefixes their paths", () => {
+		const res = validate({
+			user: validate({
+				name: required(""),
+				addresses: validate([ok("Main St"), required("")]),
+			}),
+		});
+		const errors: ValidationError[] = isErr(res) ? res.error.errors : [];
+		expect(errors.map(e => e.message)).toEqual(["user.name: required", "user.addresses[1]: required"]);
+	});
+
+	test("validate() turns Nil into undefined values", () => {
+		const res = validate({ nickname: nil(), name: ok("Alice") });
+		expect(res.get()).toEqual({ nickname: undefined, name: "Alice" });
+	});
+
+	test("validate() keeps the shape of arrays", () => {
+		expect(validate([ok(1), () => 2, 3]).get()).toEqual([1, 2, 3]);
+	});
+});
+
+// Tests for Decoders
+describe("Decoders", () => {
+	const User = object({
+		name: string(),
+		age: optional(number()),
+		role: literal("admin", "user"),
+		user: optional(object({
+			address: array(object({ zip: string() })),
+		})),
+	});
+
+	test("primitive decoders accept matching values and reject others", () => {
+		expect(string()("a").get()).toBe("a");
+		expect(number()(1).get()).toBe(1);
+		expect(boolean()(false).get()).toBe(false);
+		expect(string()(1)).toBeErr("expected string");
+		expect(isErr(number()(NaN))).toBe(true);
+		expect(isErr(boolean()("true"))).toBe(true);
+	});
+
+	test("literal() accepts only the given values", () => {
+		expect(literal("a", 1)(1).get()).toBe(1);
+		expect(literal("a", 1)("b")).toBeErr('expected "a" | 1');
+	});
+
+	test("object() decodes known properties and leaves out unknown ones", () => {
+		const res = User({ name: "Alice", role: "admin", extra: true });
+		expect(res.get()).toEqual({ name: "Alice", role: "admin" });
+		expect(User([])).toBeErr("expected object");
+	});
+
+	test("errors contain the path to the invalid value", () => {
+		const res = User({ name: "Alice", role: "user", user: { address: [{ zip: "1" }, { zip: "2" }, { zip: 3 }] } });
+		expect(res).toBeErr(ValidationError);
+		expect(res).toBeErr("user.address[2].zip: expected string");
+		if (isErr(res)) {
+			expect(res.error.path).toEqual(["user", "address", 2, "zip"]);
+			expect(res.error.cause).toBeInstanceOf(TypeError);
+		}
+	});
+
+	test("optional() returns Nil for undefined and null", () => {
+		expect(isNil(optional(string())(undefined))).toBe(true);
+		expect(isNil(optional(string())(null))).toBe(true);
+		expect(isErr(optional(string())(1))).toBe(true);
+	});
+
+	test("union() returns the first match or the closest error", () => {
+		const decoder = union(string(), number());
+		expect(decoder(1).get()).toBe(1);
+		expect(decoder(true)).toBeErr("expected string | number");
+		const shapes = union(
+			object({ kind: literal("a") }),
+			object({ kind: literal("b"), data: object({ size: number() }) })
+		);
+		expect(shapes({ kind: "b", data: {} })).toBeErr("data.size: expected number");
+	});
+
+	test("decoders plug into chain() and flow()", async () => {
+		const res = result(() => JSON.parse('{"name":"Bob","role":"user"}')).chain(User);
+		expect(res.get()).toEqual({ name: "Bob", role: "user" });
+		const flowed = await flow('{"name":1}', (json: string) => JSON.parse(json), User);
+		expect(flowed).toBeErr("name: expected string");
+	});
+});
+
+// Tests for Exhaustive Matching
+describe("Exhaustive Matching", () => {
+	test("match() methods call the default case if no other case matches", () => {
+		expect(ok(1).match({ Nil: () => "nil", default: () => "default" })).toBe("default");
+		expect(nil().match({ Ok: () => "ok", default: () => "default" })).toBe("default");
+		expect(err("Failed").match({ Ok: () => "ok", default: (res: any) => res.error.message })).toBe("Failed");
+	});
+
+	test("match() methods prefer specific cases over the default case", () => {
+		expect(ok(1).match({ Ok: (v: number) => v + 1, default: () => 0 })).toBe(2);
+		const NotFound = defineError("NotFound");
+		expect(err(new NotFound()).match({ Err: { NotFound: () => "tag" }, default: () => "default" })).toBe("tag");
+		expect(err("Plain").match({ Err: { NotFound: () => "tag" }, default: () => "default" })).toBe("default");
+	});
+
+	test("match() methods call the default case for consumed Ok values without Gone case", () => {
+		const res = ok({ a: 1 });
+		res.get();
+		expect(res.match({ default: () => "default" })).toBe("default");
+		expect(res.match({ Gone: () => "gone", default: () => "default" })).toBe("gone");
+	});
+
+	test("match() passes unmatched Results through", () => {
+		const res: Result<number> = nil();
+		expect(match(res, { Ok: v => v })).toBe(res);
+		expect(match(ok(2) as Result<number>, { Ok: v => v * 2, Nil: () => 0 })).toBe(4);
+	});
+
+	test("matchStrict() returns the result of the matching case", () => {
+		const cases = { Ok: (v: number) => `ok ${v}`, Nil: () => "nil", Err: (e: Error) => e.message };
+		expect(matchStrict(ok(1), cases)).toBe("ok 1");
+		expect(matchStrict(nil(), cases)).toBe("nil");
+		expect(matchStrict(err("Failed"), cases)).toBe("Failed");
+	});
+
+	test("matchStrict() throws if no case matches", () => {
+		const NotFound = defineError("NotFound");
+		const Invalid = defineError("Invalid");
+		const res = err(new Invalid()) as Result<number, InstanceType<typeof NotFound> | InstanceType<typeof Invalid>>;
+		// @ts-expect-error - missing Invalid tag
+		expect(() => matchStrict(res, { Ok: () => 1, Nil: () => 0, Err: { NotFound: () => 2 } }))
+			.toThrow("No case matched");
+		expect(matchStrict(res, { default: () => "default" })).toBe("default");
+	});
+});
+
+// Tests for Ownership Modes
+describe("Ownership Modes", () => {
+	test("owned values are cloned and consumed by get()", () => {
+		const value = { a: 1 };
+		const res = ok(value, "owned");
+		expect(res.peek()).not.toBe(value);
+		expect(res.get()).toEqual({ a: 1 });
+		expect(isGone(res)).toBe(true);
+		expect(() => res.get()).toThrow(ReferenceError);
+	});
+
+	test("frozen values are deeply frozen and can be read any number of times", () => {
+		const value = { a: { b: [1, 2] } };
+		const res = ok(value, "frozen");
+		expect(res.get()).toBe(value);
+		expect(res.get()).toBe(value);
+		expect(isGone(res)).toBe(false);
+		expect(Object.isFrozen(value.a.b)).toBe(true);
+		expect(() => { res.get().a.b.push(3); }).toThrow(TypeError);
+	});
+
+	test("frozen mode handles cyclic values and typed arrays", () => {
+		const value: any = { bytes: new Uint8Array([1, 2]) };
+		value.self = value;
+		expect(() => ok(value, "frozen")).not.toThrow();
+		expect(Object.isFrozen(value)).toBe(true);
+	});
+
+	test("shared values are neither cloned nor consumed", () => {
+		const value = { a: 1 };
+		const res = ok(value, "shared");
+		expect(res.get()).toBe(value);
+		expect(res.get()).toBe(value);
+		expect(Object.isFrozen(value)).toBe(false);
+	});
+
+	test("map() keeps the ownership mode", () => {
+		const res = ok({ a: 1 }, "frozen").map(v => ({ b: v.a }));
+		expect(Object.isFrozen(res.get())).toBe(true);
+		expect(isGone(res)).toBe(false);
+	});
+
+	test("chain() and await() keep the ownership mode for plain values", async () => {
+		const chained = ok({ a: 1 }, "frozen").chain(v => v);
+		expect(Object.isFrozen(chained.get())).toBe(true);
+		expect(isGone(chained)).toBe(false);
+		const awaited = await ok({ a: 1 }, "frozen").await(async v => ({ b: v.a }));
+		expect(Object.isFrozen(awaited.get())).toBe(true);
+		expect(isGone(awaited)).toBe(false);
+	});
+
+	test("AsyncResult and flow() steps keep the ownership mode for plain values", async () => {
+		const mapped = await ok({ a: 1 }, "frozen")
+			.await(async v => ({ b: v.a }))
+			.map(v => ({ c: v.b }))
+			.chain(async v => ({ d: v.c }));
+		expect(mapped).toBeOk({ d: 1 });
+		expect(isOk(mapped) && mapped.mode).toBe("frozen");
+		expect(Object.isFrozen(mapped.get())).toBe(true);
+		const flowed = await flow(ok({ a: 1 }, "frozen"), v => ({ b: v.a }), async v => ({ c: v.b }));
+		expect(isOk(flowed) && flowed.mode).toBe("frozen");
+		expect(Object.isFrozen(flowed.get())).toBe(true);
+		expect(isGone(flowed)).toBe(false);
+	});
+
+	test("frozen mode does not freeze nested Results or immutable values", () => {
+		const res = ok({ inner: ok({ a: 1 }), promise: Promise.resolve(1) }, "frozen");
+		expect(res.peek().inner.get()).toEqual({ a: 1 });
+		expect(Object.isFrozen(res.peek().promise)).toBe(false);
+		expect(Object.isFrozen(res.peek())).toBe(true);
+	});
+
+	test("chain() keeps the ownership mode of returned Results", () => {
+		const res = ok({ a: 1 }, "frozen").chain(v => ok({ b: v.a }, "shared"));
+		expect(Object.isFrozen(res.get())).toBe(false);
+	});
+
+	test("setOwnership() changes the global default mode", () => {
+		expect(getOwnership()).toBe("owned");
+		setOwnership("shared");
+		try {
+			const value = { a: 1 };
+			expect(ok(value).get()).toBe(value);
+		} finally {
+			setOwnership("owned");
+		}
+	});
+
+	test("peek() and borrow() read owned values without consuming them", () => {
+		const res = ok({ a: 1 });
+		expect(res.peek()).toEqual({ a: 1 });
+		expect(res.borrow(v => v.a + 1)).toBe(2);
+		expect(isGone(res)).toBe(false);
+		res.get();
+		expect(() => res.peek()).toThrow(ReferenceError);
+	});
+
+	test("peek() and borrow() on Nil and Err", () => {
+		expect(nil().peek()).toBeUndefined();
+		expect(nil().borrow(() => 1)).toBeUndefined();
+		expect(() => err("Failed").peek()).toThrow("Failed");
+		expect(err("Failed").borrow(() => 1)).toBeUndefined();
+	});
+});
+
+// Tests for Clone Registry
+describe("Clone Registry", () => {
+	class Money {
+		constructor(public amount: number, public currency: string) {}
+		format() { return `${this.amount} ${this.currency}`; }
+	}
+
+	test("structuredClone() fallback loses the prototype of class instances and warns", () => {
+		class Point {
+			constructor(public x: number, public y: number) {}
+		}
+		const spy = spyOn(console, "warn").mockImplementation(() => {});
+		try {
+			const clone = tryClone(new Point(1, 2));
+			expect(clone).not.toBeInstanceOf(Point);
+			expect(clone).toEqual({ x: 1, y: 2 } as Point);
+			expect(spy).toHaveBeenCalledTimes(1);
+			expect(tryClone(new Point(1, 2), false)).not.toBeInstanceOf(Point);
+			expect(tryClone({ x: 1 })).toEqual({ x: 1 });
+			expect(tryClone(new Map([[1, 2]]))).toEqual(new Map([[1, 2]]));
+			expect(spy).toHaveBeenCalledTimes(1);
+		} finally {
+			spy.mockRestore();
+		}
+	});
+
+	test("registerCloner() preserves the class of wrapped values", () => {
+		const unregister = registerCloner(Money, m => new Money(m.amount, m.currency));
+		try {
+			const value = new Money(10, "CHF");
+			const res = ok(value);
+			const clone = res.get();
+			expect(clone).not.toBe(value);
+			expect(clone).toBeInstanceOf(Money);
+			expect(clone.format()).toBe("10 CHF");
+		} finally {
+			unregister();
+		}
+		expect(tryClone(new Money(10, "CHF"), false)).not.toBeInstanceOf(Money);
+	});
+
+	test("registered cloners do not apply to subclasses", () => {
+		class Price extends Money {}
+		const unregisterMoney = registerCloner(Money, m => new Money(m.amount, m.currency));
+		const spy = spyOn(console, "warn").mockImplementation(() => {});
+		try {
+			expect(tryClone(new Price(5, "EUR"))).not.toBeInstanceOf(Money);
+			expect(spy).toHaveBeenCalledTimes(1);
+			const unregisterPrice = registerCloner(Price, p => new Price(p.amount, p.currency));
+			try {
+				const clone = tryClone(new Price(5, "EUR"));
+				expect(clone).toBeInstanceOf(Price);
+				expect(clone.format()).toBe("5 EUR");
+			} finally {
+				unregisterPrice();
+			}
+		} finally {
+			spy.mockRestore();
+			unregisterMoney();
+		}
+	});
+
+	test("a CLONE method on the instance takes precedence", () => {
+		class Counter {
+			constructor(public count = 0) {}
+			[CLONE]() { return new Counter(this.count); }
+		}
+		const value = new Counter(3);
+		const clone = tryClone(value);
+		expect(clone).not.toBe(value);
+		expect(clone).toBeInstanceOf(Counter);
+		expect(clone.count).toBe(3);
+		expect(CLONE === Symbol.for("flowsure.clone")).toBe(true);
+	});
+
+	test("registerImmutable() stores instances of the class and its subclasses without cloning", () => {
+		class Connection {
+			send() { return "sent"; }
+		}
+		class SecureConnection extends Connection {}
+		const unregister = registerImmutable(Connection);
+		try {
+			const value = new Connection();
+			expect(ok(value).get()).toBe(value);
+			const secure = new SecureConnection();
+			expect(ok(secure).get()).toBe(secure);
+		} finally {
+			unregister();
+		}
+		expect(tryClone(new Connection(), false)).not.toBeInstanceOf(Connection);
+	});
+
+	test("promises are not cloned and do not warn", () => {
+		const spy = spyOn(console, "warn").mockImplementation(() => {});
+		try {
+			const promise = Promise.resolve(1);
+			expect(tryClone(promise)).toBe(promise);
+			expect(spy).not.toHaveBeenCalled();
+		} finally {
+			spy.mockRestore();
+		}
+	});
+});
+
+// Tests for AsyncResult
+describe("AsyncResult", () => {
+	const delay = <T>(value: T, ms = 1) => new Promise<T>(resolve => setTimeout(() => resolve(value), ms));
+
+	test("task() and await() return an AsyncResult that can be awaited", async () => {
+		const pending = task(() => delay(1));
+		expect(isAsyncResult(pending)).toBe(true);
+		expect((await pending).get()).toBe(1);
+		const awaited = ok(1).await(async v => v + 1);
+		expect(isAsyncResult(awaited)).toBe(true);
+		expect((await awaited).get()).toBe(2);
+		expect(isNil(await nil().await(async () => 1))).toBe(true);
+		expect(isErr(await err("Failed").await(async () => 1))).toBe(true);
+	});
+
+	test("map() and chain() accept sync and async callbacks", async () => {
+		const res = await task(() => delay(2))
+			.map(v => v * 2)
+			.map(async v => delay(v + 1))
+			.chain(v => v > 3 ? ok(v) : nil())
+			.chain(async v => ok(String(v)));
+		expect(res.get()).toBe("5");
+	});
+
+	test("exceptions and rejections in callbacks become Err", async () => {
+		const thrown = await asyncResult(1).map(() => { throw new TypeError("Thrown"); });
+		expect(thrown).toBeErr(TypeError);
+		const rejected = await asyncResult(1).chain(() => Promise.reject(new RangeError("Rejected")));
+		expect(rejected).toBeErr(RangeError);
+		expect(isErr(await asyncResult(Promise.reject(new Error("Rejected"))))).toBe(true);
+	});
+
+	test("Nil and Err pass through map() and chain()", async () => {
+		let called = false;
+		const res = await asyncResult(new Error("Failed")).map(() => { called = true; }).chain(() => { called = true; });
+		expect(isErr(res)).toBe(true);
+		expect(called).toBe(false);
+	});
+
+	test("filter() and guard() convert to Nil if the predicate fails", async () => {
+		expect((await asyncResult(5).filter(async v => v > 2)).get()).toBe(5);
+		expect(isNil(await asyncResult(1).filter(v => v > 2))).toBe(true);
+		expect(isNil(await asyncResult(new Error("Failed")).filter(() => true))).toBe(true);
+		expect(isNil(await asyncResult<unknown>(1).guard((v): v is string => typeof v === "string"))).toBe(true);
+	});
+
+	test("or() and catch() recover from Nil and Err", async () => {
+		expect((await asyncResult(null).or(async () => "fallback")).get()).toBe("fallback");
+		expect((await asyncResult(new Error("Failed")).or(error => error?.message)).get()).toBe("Failed");
+		expect((await asyncResult(1).or(() => 2)).get()).toBe(1);
+		const recovered = await task(() => Promise.reject(new Error("Failed")))
+			.catch(async error => ok(`Recovered: ${error.message}`));
+		expect(recovered.get()).toBe("Recovered: Failed");
+	});
+
+	test("match() resolves to the result of the matching case", async () => {
+		expect(await asyncResult(delay(3)).match({ Ok: v => v * 2 })).toBe(6);
+		expect(await asyncResult(new Error("Failed")).match({ Err: async e => e.message })).toBe("Failed");
+	});
+
+	test("an AsyncResult can be used as a flow() step", async () => {
+		const res = await flow(2, (v: number) => asyncResult(v).map(x => x * 3), (v: number) => v + 1);
+		expect(res.get()).toBe(7);
+	});
+});
+
+// Tests for Side-Effect Taps
+describe("Side-Effect Taps", () => {
+	test("tap() runs a side effect with the Ok value without consuming it", () => {
+		const seen: unknown[] = [];
+		const res = ok({ a: 1 }).tap(v => seen.push(v.a)).tapErr(() => seen.push("err")).tapNil(() => seen.push("nil"));
+		expect(seen).toEqual([1]);
+		expect(isGone(res)).toBe(false);
+		expect(res.get()).toEqual({ a: 1 });
+	});
+
+	test("tapErr() and tapNil() run only for Err and Nil", () => {
+		const seen: unknown[] = [];
+		err("Failed").tap(() => seen.push("ok")).tapNil(() => seen.push("nil")).tapErr(e => seen.push(e.message));
+		nil().tap(() => seen.push("ok")).tapErr(() => seen.push("err")).tapNil(() => seen.push("nil"));
+		expect(seen).toEqual(["Failed", "nil"]);
+	});
+
+	test("finally() runs for Ok, Nil and Err", () => {
+		let count = 0;
+		ok(1).finally(() => count++);
+		nil().finally(() => count++);
+		err("Failed").finally(() => count++);
+		expect(count).toBe(3);
+	});
+
+	test("errors in side effects are logged and never replace the Result", () => {
+		const spy = spyOn(console, "error").mockImplementation(() => {});
+		try {
+			const res = ok(1).tap(() => { throw new Error("Side effect failed"); });
+			expect(res.get()).toBe(1);
+			const failed = err("Original").tapErr(() => { throw new Error("Side effect failed"); });
+			expect(failed.error.message).toBe("Original");
+			expect(spy).toHaveBeenCalledTimes(2);
+		} finally {
+			spy.mockRestore();
+		}
+	});
+
+	test("AsyncResult taps await async side effects in order", async () => {
+		const seen: string[] = [];
+		const res = await task(async () => 1)
+			.tap(async v => { await new Promise(resolve => setTimeout(resolve, 5)); seen.push(`tap ${v}`); })
+			.map(v => { seen.push("map"); return v + 1; })
+			.tapNil(() => seen.push("nil"))
+			.finally(() => seen.push("finally"));
+		expect(res.get()).toBe(2);
+		expect(seen).toEqual(["tap 1", "map", "finally"]);
+	});
+
+	test("AsyncResult taps never replace the Result with rejections", async () => {
+		const spy = spyOn(console, "error").mockImplementation(() => {});
+		try {
+			const res = await asyncResult(new Error("Original"))
+				.tapErr(async () => { throw new Error("Side effect failed"); })
+				.finally(() => Promise.reject(new Error("Cleanup failed")));
+			expect(res).toBeErr("Original");
+			expect(spy).toHaveBeenCalledTimes(2);
+		} finally {
+			spy.mockRestore();
+		}
+	});
+});
+
+// Tests for Flow Instrumentation
+describe("Flow Instrumentation", () => {
+	test("observer hooks are called for flow and steps in order", async () => {
+		const events: string[] = [];
+		function triple(x: number) { return x * 3; }
+		await flow(1, triple, async (x: number) => x + 1, {
+			name: "calc",
+			observer: {
+				onFlowStart: ({ flow }) => events.push(`start ${flow.name} ${flow.steps}`),
+				onStepStart: ({ index, name }) => events.push(`step ${index} ${name}`),
+				onStepEnd: ({ index, outcome }) => events.push(`end ${index} ${outcome}`),
+				onFlowEnd: ({ outcome, result }) => events.push(`done ${outcome} ${result.get()}`),
+			},
+		});
+		expect(events).toEqual([
+			"start calc 2", "step 0 triple", "end 0 ok", "step 1 step 2", "end 1 ok", "done ok 4",
+		]);
+	});
+
+	test("step end events contain duration and outcome", async () => {
+		const { clock, advance } = fakeClock();
+		const ends: any[] = [];
+		await flow(
+			1,
+			(x: number) => { advance(5); return x; },
+			() => { advance(10); return nil(); },
+			{ clock, observer: { onStepEnd: event => ends.push([event.duration, event.outcome]) } }
+		);
+		expect(ends).toEqual([[5, "ok"], [10, "nil"]]);
+	});
+
+	test("failing steps end with an err outcome and skip the following steps", async () => {
+		const outcomes: string[] = [];
+		await flow(1, () => { throw new Error("Failed"); }, (x: number) => x, {
+			observer: {
+				onStepEnd: ({ outcome }) => outcomes.push(outcome),
+				onFlowEnd: ({ outcome }) => outcomes.push(`flow ${outcome}`),
+			},
+		});
+		expect(outcomes).toEqual(["err", "flow err"]);
+	});
+
+	test("observe() registers a global observer until it is unregistered", async () => {
+		let count = 0;
+		const unobserve = observe({ onFlowEnd: () => { count++; } });
+		await flow(1, (x: number) => x);
+		unobserve();
+		await flow(1, (x: number) => x);
+		expect(count).toBe(1);
+	});
+
+	test("errors in observers do not affect the flow", async () => {
+		const spy = spyOn(console, "error").mockImplementation(() => {});
+		try {
+			const res = await flow(1, (x: number) => x + 1, {
+				observer: { onStepStart: () => { throw new Error("Observer failed"); } },
+			});
+			expect(res.get()).toBe(2);
+		} finally {
+			spy.mockRestore();
+		}
+	});
+
+	test("SpanRecorder records a span tree that can be exported as JSON", async () => {
+		const { clock, advance } = fakeClock();
+		const recorder = new SpanRecorder();
+		async function loadRecords(x: number) { advance(20); return x; }
+		function parseRecords() { advance(5); return err(new TypeError("Bad input")); }
+		await flow(1, loadRecords, parseRecords, { name: "import", clock, observer: recorder });
+		const json = JSON.parse(JSON.stringify(recorder));
+		expect(json).toEqual([{
+			name: "import", start: 0, end: 25, duration: 25, outcome: "err",
+			error: { name: "TypeError", message: "Bad input" },
+			children: [
+				{ name: "loadRecords", start: 0, end: 20, duration: 20, outcome: "ok", children: [] },
+				{
+					name: "parseRecords", start: 20, end: 25, duration: 5, outcome: "err",
+					error: { name: "TypeError", message: "Bad input" }, children: [],
+				},
+			],
+		}]);
+		recorder.clear();
+		expect(recorder.spans).toHaveLength(0);
+	});
+});
+
+// Tests for Resource Management
+describe("Resource Management", () => {
+	class Handle {
+		closed = false;
+		read() { return "content"; }
+		close() { this.closed = true; }
+	}
+
+	test("bracket() releases the resource after Ok, Nil and Err", async () => {
+		const outcomes: [Handle, string][] = [];
+		const release = (h: Handle, res: Result<unknown>) => {
+			h.close();
+			outcomes.push([h, isOk(res) ? "ok" : isNil(res) ? "nil" : "err"]);
+		};
+		expect((await bracket(() => new Handle(), h => h.read(), release)).get()).toBe("content");
+		expect(isNil(await bracket(() => new Handle(), () => nil(), release))).toBe(true);
+		const failed = await bracket(() => new Handle(), async () => { throw new Error("Use failed"); }, release);
+		expect(failed).toBeErr("Use failed");
+		expect(outcomes.map(([h, outcome]) => [h.closed, outcome])).toEqual([[true, "ok"], [true, "nil"], [true, "err"]]);
+	});
+
+	test("bracket() passes the resource itself without cloning it", async () => {
+		const handle = new Handle();
+		let used: unknown;
+		await bracket(async () => ok(handle, "shared"), h => { used = h; }, () => {});
+		expect(used).toBe(handle);
+	});
+
+	test("bracket() does not consume the Result when release reads it", async () => {
+		let released: unknown;
+		const res = await bracket(() => new Handle(), () => ({ rows: [1, 2] }), (_, res) => { released = res.get(); });
+		expect(released).toEqual({ rows: [1, 2] });
+		expect(isGone(res)).toBe(false);
+		expect(res.get()).toEqual({ rows: [1, 2] });
+	});
+
+	test("bracket() does not use or release if acquire fails or returns Nil", async () => {
+		let calls = 0;
+		const failed = await bracket(() => { throw new Error("Acquire failed"); }, () => calls++, () => calls++);
+		expect(failed).toBeErr("Acquire failed");
+		expect(isErr(await bracket(async () => err("Not found"), () => calls++, () => calls++))).toBe(true);
+		expect(isNil(await bracket(() => null, () => calls++, () => calls++))).toBe(true);
+		expect(calls).toBe(0);
+	});
+
+	test("a failed release is attached to the outcome as ReleaseError", async () => {
+		const res = await bracket(() => new Handle(), h => h.read(), () => { throw new Error("Close failed"); });
+		expect(res).toBeErr(ReleaseError);
+		const error = isErr(res) ? res.error : undefined;
+		if (error instanceof ReleaseError) {
+			expect(error.cause).toEqual(new Error("Close failed"));
+			expect(error.result).toBeOk("content");
+		}
+		const both = await bracket(() => new Handle(), () => err("Use failed"), async () => { throw new Error("Close failed"); });
+		expect(isErr(both) && both.error instanceof ReleaseError && both.error.result).toBeErr("Use failed");
+	});
+
+	test("Symbol.dispose and Symbol.asyncDispose are used without release function", async () => {
+		const disposed: string[] = [];
+		await bracket(() => ({ [Symbol.dispose]: () => { disposed.push("sync"); } }), () => 1);
+		await bracket(() => ({ [Symbol.asyncDispose]: async () => { disposed.push("async"); } }), () => 1);
+		expect(disposed).toEqual(["sync", "async"]);
+	});
+
+	test("resource() acquires and releases the resource each time it is used", async () => {
+		const handles: Handle[] = [];
+		const file = resource(() => { const h = new Handle(); handles.push(h); return h; }, h => h.close());
+		expect((await file.use(h => h.read())).get()).toBe("content");
+		const res = await flow("path", () => file.use(h => h.read().length));
+		expect(res.get()).toBe(7);
+		expect(handles.map(h => h.closed)).toEqual([true, true]);
+	});
+});
+
+// Tests for Async Iterables and Streams
+describe("Async Iterables and Streams", () => {
+	async function* lines() {
+		yield '{"id":1}';
+		yield 'invalid';
+		yield '{"id":3}';
+	}
+	const parseLine = (line: string) => result(() => JSON.parse(line) as { id: number });
+
+	const toArray = async <T>(items: AsyncIterable<T>) => {
+		const values: T[] = [];
+		for await (const item of items) values.push(item);
+		return values;
+	};
+
+	const readAll = async <T>(stream: ReadableStream<T>) => {
+		const values: T[] = [];
+		const reader = stream.getReader();
+		for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) values.push(chunk.value);
+		return values;
+	};
+
+	test("mapResults() yields the Result of each item by default", async () => {
+		const results = await toArray(mapResults(lines(), parseLine));
+		expect(results.map(res => isOk(res) ? "ok" : "err")).toEqual(["ok", "err", "ok"]);
+	});
+
+	test("mapResults() accepts sync iterables and async functions", async () => {
+		const results = await toArray(mapResults([1, 2], async (n, i) => n * 10 + i));
+		expect(results.map(res => res.get())).toEqual([10, 21]);
+	});
+
+	test("mapResults() applies the Err policy", async () => {
+		const stopped = await toArray(mapResults(lines(), parseLine, { onErr: "stop" }));
+		expect(stopped.map(res => isOk(res) ? "ok" : "err")).toEqual(["ok", "err"]);
+		const skipped = await toArray(mapResults(lines(), parseLine, { onErr: "skip" }));
+		expect(skipped.map(res => res.get())).toEqual([{ id: 1 }, { id: 3 }]);
+		const dead: [string, number][] = [];
+		const routed = await toArray(mapResults(lines(), parseLine, { onErr: (e, i) => { dead.push([e.name, i]); } }));
+		expect(routed).toHaveLength(2);
+		expect(dead).toEqual([["SyntaxError", 1]]);
+	});
+
+	test("filterOk() yields Ok values and skips Nil and Err by default", async () => {
+		const items = [ok(1), nil(), err("Failed"), Promise.resolve(ok(4)), 5];
+		expect(await toArray(filterOk(items))).toEqual([1, 4, 5]);
+		expect(await toArray(filterOk(items, { onErr: "stop" }))).toEqual([1]);
+	});
+
+	test("takeUntilErr() yields Ok values until the first Err", async () => {
+		let dead: unknown;
+		const values = await toArray(takeUntilErr(mapResults(lines(), parseLine), e => { dead = e; }));
+		expect(values).toEqual([{ id: 1 }]);
+		expect(dead).toBeInstanceOf(SyntaxError);
+	});
+
+	test("collectResults() resolves to Ok of all values or the first Err", async () => {
+		expect((await collectResults([ok(1), nil(), 3])).get()).toEqual([1, 3]);
+		const failed = await collectResults(mapResults(lines(), parseLine));
+		expect(failed).toBeErr(SyntaxError);
+		const skipped = await collectResults(mapResults(lines(), parseLine), { onErr: "skip" });
+		expect(skipped.get()).toEqual([{ id: 1 }, { id: 3 }]);
+	});
+
+	test("TransformStream adapters work with pipeThrough()", async () => {
+		const source = () => new ReadableStream<string>({
+			start(controller) {
+				['{"id":1}', "invalid", '{"id":3}'].forEach(line => controller.enqueue(line));
+				controller.close();
+			},
+		});
+		const values = await readAll(source().pipeThrough(mapResultsStream(parseLine)).pipeThrough(filterOkStream()));
+		expect(values).toEqual([{ id: 1 }, { id: 3 }]);
+		let dead: unknown;
+		const taken = await readAll(source().pipeThrough(mapResultsStream(parseLine))
+			.pipeThrough(takeUntilErrStream(e => { dead = e; })));
+		expect(taken).toEqual([{ id: 1 }]);
+		expect(dead).toBeInstanceOf(SyntaxError);
+	});
+});
+
+// Tests for Interop Adapters
+describe("Interop Adapters", () => {
+	const divide = (a: number, b: number, callback: (error: Error | null, value?: number) => void) =>
+		setTimeout(() => b === 0 ? callback(new RangeError("Division by zero")) : callback(null, a / b), 0);
+
+	test("fromCallback() resolves to Ok of the callback value", async () => {
+		const res = await fromCallback(divide)(6, 3);
+		expect(isOk(res)).toBe(true);
+		expect(res.get()).toBe(2);
+	});
+
+	test("fromCallback() resolves to Err of the callback error or a thrown error", async () => {
+		const res = await fromCallback(divide)(1, 0);
+		expect(res).toBeErr(RangeError);
+		const thrown = await fromCallback((_: number, callback: (error: unknown) => void) => { throw new TypeError("Sync"); })(1);
+		expect(thrown).toBeErr(TypeError);
+		const invalid = await fromCallback((callback: (error: unknown) => void) => callback("Failed"))();
+		expect(invalid).toBeErr("Failed");
+	});
+
+	test("fromCallback() treats only truthy first arguments as errors", async () => {
+		const res = await fromCallback((callback: (error: unknown, value?: string) => void) => callback(0, "zero"))();
+		expect(res).toBeOk("zero");
+		expect(await fromCallback((callback: (error: unknown) => void) => callback(""))()).toBeNil();
+		expect(await fromCallback((callback: (error: unknown) => void) => callback(false))()).toBeNil();
+	});
+
+	test("fromCallback() resolves to Nil for an undefined value", async () => {
+		const res = await fromCallback((callback: (error: null) => void) => callback(null))();
+		expect(isNil(res)).toBe(true);
+	});
+
+	test("toPromise() resolves the Ok value, undefined for Nil, and rejects the Err error", async () => {
+		expect(await toPromise(ok(42))).toBe(42);
+		expect(await toPromise(nil())).toBeUndefined();
+		expect(await toPromise(task(async () => "async"))).toBe("async");
+		await expect(toPromise(err("Failed"))).rejects.toThrow("Failed");
+	});
+
+	test("fromUnion() converts { ok, value, error } objects", () => {
+		expect(fromUnion({ ok: true, value: 42 }).get()).toBe(42);
+		expect(isNil(fromUnion({ ok: true, value: null }))).toBe(true);
+		const res = fromUnion({ ok: false, error: new TypeError("Invalid") });
+		expect(res).toBeErr(TypeError);
+	});
+
+	test("fromUnion() supports custom keys and objects without tag", () => {
+		expect(fromUnion({ success: true, data: "x" }, { tag: "success", value: "data" }).get()).toBe("x");
+		expect(fromUnion({ data: 1, error: null }, { value: "data" }).get()).toBe(1);
+		const res = fromUnion({ data: null, error: { message: "Not found", code: 404 } }, { value: "data" });
+		expect(res).toBeErr("Not found");
+		expect(isErr(res) && res.error.cause).toEqual({ message: "Not found", code: 404 });
+	});
+
+	test("toUnion() converts Results into discriminated-union objects", () => {
+		expect(toUnion(ok(42))).toEqual({ ok: true, value: 42 });
+		expect(toUnion(nil())).toEqual({ ok: true, value: undefined });
+		const error = new Error("Failed");
+		expect(toUnion(err(error))).toEqual({ ok: false, error });
+		expect(toUnion(ok("x"), { tag: "success", value: "data" })).toEqual({ success: true, data: "x" });
+	});
+
+	test("toUnion() and fromUnion() round-trip", () => {
+		expect(fromUnion(toUnion(ok([1, 2]))).get()).toEqual([1, 2]);
+	});
+});
+
+// Tests for Testing Utilities
+describe("Testing Utilities", () => {
+	test("equals() compares Results structurally", () => {
+		expect(equals(ok({ a: [1, 2] }), ok({ a: [1, 2] }))).toBe(true);
+		expect(equals(ok({ a: [1, 2] }), ok({ a: [1, 3] }))).toBe(false);
+		expect(equals(nil(), nil())).toBe(true);
+		expect(equals(ok(1), nil())).toBe(false);
+		expect(equals(err(new TypeError("Invalid")), err(new TypeError("Invalid")))).toBe(true);
+		expect(equals(err(new TypeError("Invalid")), err(new Error("Invalid")))).toBe(false);
+		expect(equals(ok(new Map([["a", ok(1)]])), ok(new Map([["a", ok(1)]])))).toBe(true);
+	});
+
+	test("equals() does not consume Ok values", () => {
+		const a = ok({ id: 1 });
+		expect(equals(a, ok({ id: 1 }))).toBe(true);
+		expect(a.get()).toEqual({ id: 1 });
+	});
+
+	test("toBeOk() matches Ok with an optional value", () => {
+		expect(ok({ id: 1 })).toBeOk();
+		expect(ok({ id: 1 })).toBeOk({ id: 1 });
+		expect(ok({ id: 1 })).not.toBeOk({ id: 2 });
+		expect(nil()).not.toBeOk();
+	});
+
+	test("toBeNil() matches Nil", () => {
+		expect(nil()).toBeNil();
+		expect(ok(0)).not.toBeNil();
+	});
+
+	test("toBeErr() matches Err by class, message, pattern or error", () => {
+		const res = err(new TypeError("Invalid input"));
+		expect(res).toBeErr();
+		expect(res).toBeErr(TypeError);
+		expect(res).toBeErr("Invalid input");
+		expect(res).toBeErr(/invalid/i);
+		expect(res).toBeErr(new TypeError("Invalid input"));
+		expect(res).not.toBeErr(RangeError);
+		expect(ok(1)).not.toBeErr();
+	});
+
+	test("failing matchers report a readable diff", () => {
+		let message = "";
+		try {
+			expect(ok({ id: 1, name: "Alice" })).toBeOk({ id: 1, name: "Bob" });
+		} catch (error) {
+			message = (error as Error).message;
+		}
+		expect(message).toContain('Expected Ok({ id: 1, name: "Bob" }), received Ok({ id: 1, name: "Alice" })');
+		expect(message).toContain('-   name: "Bob",');
+		expect(message).toContain('+   name: "Alice",');
+		expect(message).toContain("    id: 1,");
+	});
+});
+
+// Tests for zip(), zipWith() and lift()
+describe("zip(), zipWith() and lift()", () => {
+	test("zip() combines values and Results into a tuple", () => {
+		const res = zip(ok(1), "two", maybe(3));
+		expect(res).toBeOk([1, "two", 3]);
+		expect(zip()).toBeOk([]);
+	});
+
+	test("zip() returns the first Err before any Nil", () => {
+		const error = new TypeError("Invalid");
+		expect(zip(ok(1), nil(), err(error), err("Second"))).toBeErr(error);
+		expect(zip(ok(1), null, 3)).toBeNil();
+	});
+
+	test("zipWith() applies a function to the values", () => {
+		expect(zipWith((a, b) => a * b, ok(6), 7)).toBeOk(42);
+		expect(zipWith((a: number, b: number) => a * b, ok(6), nil())).toBeNil();
+	});
+
+	test("zipWith() does not call the function on Nil or Err", () => {
+		let called = false;
+		const fn = (a: number, b: number) => { called = true; return a + b; };
+		zipWith(fn, ok(1), nil());
+		zipWith(fn, err("Failed"), 2);
+		expect(called).toBe(false);
+	});
+
+	test("zipWith() wraps the return value and thrown errors of the function", () => {
+		expect(zipWith(() => { throw new RangeError("Out of range"); }, ok(1))).toBeErr(RangeError);
+		expect(zipWith(a => a > 0 ? ok(a) : nil(), ok(-1))).toBeNil();
+	});
+
+	test("lift() turns a function of values into a function of Results", () => {
+		const add = lift((a: number, b: number) => a + b);
+		expect(add(ok(1), 2)).toBeOk(3);
+		expect(add(maybe<number>(undefined), 2)).toBeNil();
+		expect(add(ok(1), err("Failed"))).toBeErr("Failed");
+	});
 });
\ No newline at end of file
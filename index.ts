@@ -3,15 +3,72 @@
  * @version 0.10.0
  * @author Esther Brunner
  */
-export { Ok, ok, isOk, isGone } from './lib/ok'
+export { type Ownership, Ok, ok, isOk, isGone, setOwnership, getOwnership } from './lib/ok'
 export { Nil, nil, isNil } from './lib/nil'
 export { Err, err, isErr } from './lib/err'
 export { type Maybe, maybe, isMaybe } from './lib/maybe'
 export {
 	isFunction, isAsyncFunction, isDefined, isMutable,
-	isInstanceOf, isError, log, tryClone,
+	isInstanceOf, isError, isAbortSignal, log, tryClone, deepFreeze,
+	type Cloner, CLONE, registerCloner, registerImmutable,
 } from './lib/util'
 export {
-	type Result, type MaybeResult,
-	result, task, flow, isResult, wrap, unwrap,
-} from './lib/result'
\ No newline at end of file
+	type Result, type MaybeResult, type ResultValue, type ResultError, type FlowOptions, type Step, type Pipeline,
+	type ZipValues, type Zipped, type Lifted,
+	result, task, flow, pipe, isResult, wrap, unwrap,
+	all, any, collect, partition, zip, zipWith, lift,
+} from './lib/result'
+export {
+	type Task, type ConcurrencyOptions,
+	mapConcurrent, allTasks, raceTasks, anyTask,
+} from './lib/concurrent'
+export { type Clock, systemClock, sleep } from './lib/clock'
+export { type RetryPolicy, type WithHistory, retry } from './lib/retry'
+export { TimeoutError, deadline, timeout } from './lib/timeout'
+export { gen, genAsync } from './lib/gen'
+export {
+	type TaggedError, type ErrorFields, type TagOf, type TaggedErrorClass,
+	defineError, isTagged,
+} from './lib/tagged'
+export {
+	type ErrorObject, type FormatOptions,
+	ContextError, causes, errorToObject, formatError,
+} from './lib/cause'
+export {
+	type SerializedOk, type SerializedNil, type SerializedErr, type SerializedResult,
+	type ErrorClass, type SerializeOptions,
+	registerError, toJSON, fromJSON, serialize, deserialize,
+} from './lib/serialize'
+
+export {
+	type Path, type Check, type Checks, type CheckValue,
+	ValidationError, formatPath, validate,
+} from './lib/validate'
+
+export {
+	type Decoder, type Infer, type Shape, type ObjectType, type Literal,
+	string, boolean, number, literal, array, object, optional, union,
+} from './lib/decode'
+
+export { type ExhaustiveCases, type Matched, match, matchStrict } from './lib/match'
+
+export { AsyncResult, asyncResult, isAsyncResult } from './lib/async'
+
+export {
+	type Outcome, type FlowInfo, type FlowStartEvent, type StepStartEvent, type StepEndEvent, type FlowEndEvent,
+	type FlowObserver, type Span,
+	observe, SpanRecorder,
+} from './lib/trace'
+
+export { type Release, type Resource, ReleaseError, bracket, resource } from './lib/resource'
+
+export {
+	type DeadLetter, type ErrPolicy, type StreamOptions,
+	mapResults, filterOk, takeUntilErr, collectResults,
+	mapResultsStream, filterOkStream, takeUntilErrStream,
+} from './lib/stream'
+
+export {
+	type Callback, type UnionKeys, type Union,
+	fromCallback, toPromise, fromUnion, toUnion,
+} from './lib/interop'
\ No newline at end of file
@@ -0,0 +1,202 @@
+import { type Cases, isInstanceOf, runEffect } from "./util"
+import { type Ownership, isOk, own } from "./ok"
+import { nil, isNil } from "./nil"
+import { type Err, err, isErr } from "./err"
+import { type MaybeResult, type OrError, type Result, type ResultValue, type ResultError, wrap } from "./result"
+
+/* === Internal Functions === */
+
+const settle = <T, E extends Error>(
+	fn: () => MaybeResult<T, E> | PromiseLike<MaybeResult<T, E>>,
+	mode?: Ownership
+): Promise<Result<T, E>> =>
+	new Promise<MaybeResult<T, E>>(resolve => resolve(fn()))
+		.then(value => wrap(own(value, mode)), error => err(error) as Err<E>)
+
+/* === Class AsyncResult === */
+
+/**
+ * Create an "AsyncResult", representing a Result that is not available yet
+ * 
+ * Methods accept both sync and async callbacks and return a new AsyncResult, so an async pipeline can be
+ * chained and awaited once. Exceptions and rejections in callbacks are captured as Err, except in side effects.
+ * map() and chain() keep the ownership mode of the Ok value for plain values returned by their callbacks.
+ * 
+ * @since 0.11.0
+ * @class AsyncResult<T, E extends Error>
+ */
+class AsyncResult<T, E extends Error = Error> implements PromiseLike<Result<T, E>> {
+	constructor(private readonly promise: PromiseLike<Result<T, E>>) {}
+
+	private effect(fn: (res: Result<T, E>) => Promise<void> | void): AsyncResult<T, E> {
+		return new AsyncResult(this.promise.then(async res => {
+			await fn(res)
+			return res
+		}))
+	}
+
+	/**
+	 * Get the Result when it is available, so AsyncResult can be awaited
+	 * 
+	 * @since 0.11.0
+	 */
+	then<R1 = Result<T, E>, R2 = never>(
+		onfulfilled?: ((value: Result<T, E>) => R1 | PromiseLike<R1>) | null,
+		onrejected?: ((reason: any) => R2 | PromiseLike<R2>) | null
+	): PromiseLike<R1 | R2> {
+		return this.promise.then(onfulfilled, onrejected)
+	}
+
+	/**
+	 * Apply a sync or async function to the Ok value
+	 * 
+	 * @since 0.11.0
+	 * @param {(value: T) => U | PromiseLike<U>} fn - the function to apply
+	 * @returns {AsyncResult<U, E>} - a new AsyncResult with the return value of the function
+	 */
+	map<U>(fn: (value: T) => U | PromiseLike<U>): AsyncResult<U, E> {
+		return new AsyncResult(this.promise.then(res =>
+			isOk(res) ? settle<U, E>(() => fn(res.peek() as T), res.mode) : res))
+	}
+
+	/**
+	 * Apply a sync or async function returning a Result to the Ok value
+	 * 
+	 * @since 0.11.0
+	 * @param {(value: T) => R} fn - the function to apply
+	 * @returns {AsyncResult<ResultValue<Awaited<R>>, E | ResultError<Awaited<R>>>} - a new AsyncResult with the Result of the function
+	 */
+	chain<R>(fn: (value: T) => R): AsyncResult<ResultValue<Awaited<R>>, E | ResultError<Awaited<R>>> {
+		return new AsyncResult(this.promise.then(res =>
+			isOk(res) ? settle(() => fn(res.peek() as T) as any, res.mode) : res as Result<never, E>))
+	}
+
+	/**
+	 * Filter the Ok value with a sync or async predicate; Err is converted to Nil like in Err.filter()
+	 * 
+	 * @since 0.11.0
+	 * @param {(value: T) => boolean | PromiseLike<boolean>} fn - the predicate
+	 * @returns {AsyncResult<T, Error>} - a new AsyncResult with the Ok value if the predicate is true, otherwise Nil
+	 */
+	filter(fn: (value: T) => boolean | PromiseLike<boolean>): AsyncResult<T, Error> {
+		return new AsyncResult(this.promise.then(res =>
+			isOk(res) ? settle<T, Error>(async () => await fn(res.peek() as T) ? res : nil())
+				: isErr(res) ? nil()
+				: res))
+	}
+
+	/**
+	 * Narrow the type of the Ok value with a type guard; Err is converted to Nil like in Err.guard()
+	 * 
+	 * @since 0.11.0
+	 * @param {(value: T) => value is U} fn - the type guard
+	 * @returns {AsyncResult<U, Error>} - a new AsyncResult with the narrowed Ok value if the type guard is true, otherwise Nil
+	 */
+	guard<U extends T>(fn: (value: T) => value is U): AsyncResult<U, Error> {
+		return this.filter(fn) as AsyncResult<U, Error>
+	}
+
+	/**
+	 * Provide an alternative value for Nil or Err with a sync or async function
+	 * 
+	 * @since 0.11.0
+	 * @param {(error?: E) => U | PromiseLike<U>} fn - a function that returns an alternative value
+	 * @returns {AsyncResult<T | U, Error>} - a new AsyncResult with the Ok value or the alternative value
+	 */
+	or<U>(fn: (error?: E) => U | PromiseLike<U>): AsyncResult<T | U, Error> {
+		return new AsyncResult(this.promise.then(res =>
+			isOk(res) ? res : settle<T | U, Error>(() => fn(isErr(res) ? res.error : undefined))))
+	}
+
+	/**
+	 * Recover from Err with a sync or async function
+	 * 
+	 * @since 0.11.0
+	 * @param {(error: E) => R} fn - a function that takes the error and returns a new Result or value
+	 * @returns {AsyncResult<T | ResultValue<Awaited<R>>, OrError<ResultError<Awaited<R>>>>} - a new AsyncResult with the Result of the function or the passed through Ok or Nil
+	 */
+	catch<R>(fn: (error: E) => R): AsyncResult<T | ResultValue<Awaited<R>>, OrError<ResultError<Awaited<R>>>> {
+		return new AsyncResult(this.promise.then(res =>
+			isErr(res) ? settle(() => fn(res.error) as any) : res as Result<T, never>))
+	}
+
+	/**
+	 * Run a sync or async side effect with the Ok value without changing or consuming it
+	 * 
+	 * The side effect is awaited before the chain continues. Its errors are logged and never replace the Result.
+	 * 
+	 * @since 0.11.0
+	 * @param {(value: Readonly<T>) => unknown} fn - the side effect, which must not mutate the value
+	 * @returns {AsyncResult<T, E>} - a new AsyncResult with the unchanged Result
+	 */
+	tap(fn: (value: Readonly<T>) => unknown): AsyncResult<T, E> {
+		return this.effect(res => isOk(res) && !res.gone ? runEffect(fn, res.peek()) : undefined)
+	}
+
+	/**
+	 * Run a sync or async side effect with the error of Err without changing it
+	 * 
+	 * @since 0.11.0
+	 * @param {(error: E) => unknown} fn - the side effect
+	 * @returns {AsyncResult<T, E>} - a new AsyncResult with the unchanged Result
+	 */
+	tapErr(fn: (error: E) => unknown): AsyncResult<T, E> {
+		return this.effect(res => isErr(res) ? runEffect(fn, res.error) : undefined)
+	}
+
+	/**
+	 * Run a sync or async side effect for Nil without changing it
+	 * 
+	 * @since 0.11.0
+	 * @param {() => unknown} fn - the side effect
+	 * @returns {AsyncResult<T, E>} - a new AsyncResult with the unchanged Result
+	 */
+	tapNil(fn: () => unknown): AsyncResult<T, E> {
+		return this.effect(res => isNil(res) ? runEffect(fn) : undefined)
+	}
+
+	/**
+	 * Run a sync or async side effect when the Result is available, whatever it is
+	 * 
+	 * @since 0.11.0
+	 * @param {() => unknown} fn - the side effect
+	 * @returns {AsyncResult<T, E>} - a new AsyncResult with the unchanged Result
+	 */
+	finally(fn: () => unknown): AsyncResult<T, E> {
+		return this.effect(() => runEffect(fn))
+	}
+
+	/**
+	 * Match the Result with a set of cases when it is available
+	 * 
+	 * @since 0.11.0
+	 * @param {Cases<T, E>} cases - a set of cases to match against
+	 * @returns {Promise<any>} - promise that resolves to the result of matching the cases, awaited if it is a Promise
+	 */
+	match(cases: Cases<T, E>): Promise<any> {
+		return Promise.resolve(this.promise).then(res => (res as Result<T, E>).match(cases as Cases<any, any>))
+	}
+}
+
+/**
+ * Create an AsyncResult from a Result, a value or a Promise for either
+ * 
+ * @since 0.11.0
+ * @param {R} value - Result, value or Promise to wrap; rejections are captured as Err
+ * @returns {AsyncResult<ResultValue<Awaited<R>>, OrError<ResultError<Awaited<R>>>>} - the new AsyncResult
+ */
+const asyncResult = /*#__PURE__*/ <R>(
+	value: R
+): AsyncResult<ResultValue<Awaited<R>>, OrError<ResultError<Awaited<R>>>> =>
+	new AsyncResult(settle(() => value as any))
+
+/**
+ * Check if a value is an AsyncResult
+ * 
+ * @since 0.11.0
+ * @param {unknown} value - the value to check
+ * @returns {boolean} - whether the value is an AsyncResult
+ */
+const isAsyncResult = isInstanceOf(AsyncResult)
+
+export { AsyncResult, asyncResult, isAsyncResult }
\ No newline at end of file
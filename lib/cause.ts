@@ -0,0 +1,104 @@
+import { isError } from "./util"
+
+/* === Types === */
+
+type ErrorObject = {
+	name: string
+	message: string
+	stack?: string
+	cause?: ErrorObject | unknown
+	errors?: (ErrorObject | unknown)[]
+	[key: string]: unknown
+}
+
+type FormatOptions = {
+	format?: 'text' | 'json' // plain text with "Caused by:" lines or structured JSON; defaults to 'text'
+	stack?: boolean // include stack traces; defaults to true
+}
+
+/* === Class ContextError === */
+
+/**
+ * Error describing what was being done when the wrapped error occurred
+ * 
+ * @since 0.11.0
+ * @class ContextError<E>
+ * @property {E} cause - the wrapped error
+ */
+class ContextError<E = unknown> extends Error {
+	declare cause: E
+
+	constructor(message: string, cause: E) {
+		super(message, { cause })
+		this.name = 'ContextError'
+	}
+}
+
+/* === Cause Chain === */
+
+/**
+ * Get the chain of an error and its causes, starting with the error itself
+ * 
+ * @since 0.11.0
+ * @param {unknown} error - the error to follow the `cause` property of
+ * @returns {unknown[]} - the error and all its causes, stopping at the first repetition
+ */
+const causes = /*#__PURE__*/ (error: unknown): unknown[] => {
+	const chain: unknown[] = []
+	let current = error
+	while (current !== undefined && !chain.includes(current)) {
+		chain.push(current)
+		current = isError(current) ? current.cause : undefined
+	}
+	return chain
+}
+
+/**
+ * Convert an error with its causes into a plain object
+ * 
+ * Own enumerable properties of the error are kept; nested causes and aggregated errors are converted as well.
+ * 
+ * @since 0.11.0
+ * @param {unknown} error - the error to convert
+ * @param {boolean} [stack=true] - whether to include stack traces
+ * @returns {ErrorObject | unknown} - plain object for errors, other values as they are
+ */
+const errorToObject = /*#__PURE__*/ (
+	error: unknown,
+	stack = true,
+	seen: unknown[] = []
+): ErrorObject | unknown => {
+	if (!isError(error) || seen.includes(error)) return error
+	const convert = (value: unknown) => errorToObject(value, stack, [...seen, error])
+	const { name, message } = error
+	const obj: ErrorObject = { ...error, name, message }
+	if (stack && error.stack) obj.stack = error.stack
+	if (error.cause !== undefined) obj.cause = convert(error.cause)
+	if (error instanceof AggregateError) obj.errors = error.errors.map(convert)
+	return obj
+}
+
+/**
+ * Format an error with its full cause chain for logging
+ * 
+ * @since 0.11.0
+ * @param {unknown} error - the error to format
+ * @param {FormatOptions} options - output format and whether to include stack traces
+ * @returns {string} - plain text with one "Caused by:" section per cause, or a JSON string
+ */
+const formatError = /*#__PURE__*/ (
+	error: unknown,
+	{ format = 'text', stack = true }: FormatOptions = {}
+): string => {
+	if (format === 'json') return JSON.stringify(errorToObject(error, stack), null, 2)
+	return causes(error)
+		.map((cause, i) => (i ? 'Caused by: ' : '') + (!isError(cause) ? String(cause)
+			: stack && cause.stack ? cause.stack
+			: `${cause.name}: ${cause.message}`))
+		.join('\n')
+}
+
+export {
+	type ErrorObject, type FormatOptions,
+	ContextError, causes, errorToObject, formatError,
+}
\ No newline at end of file
@@ -0,0 +1,33 @@
+/* === Types === */
+
+type Clock = {
+	now: () => number
+	setTimeout: (fn: () => void, ms: number) => unknown
+	clearTimeout: (id: any) => void
+}
+
+/* === Clock === */
+
+/**
+ * Default clock using the global timer functions
+ * 
+ * @since 0.11.0
+ */
+const systemClock: Clock = {
+	now: () => Date.now(),
+	setTimeout: (fn, ms) => setTimeout(fn, ms),
+	clearTimeout: id => clearTimeout(id),
+}
+
+/**
+ * Wait for a given number of milliseconds
+ * 
+ * @since 0.11.0
+ * @param {number} ms - milliseconds to wait
+ * @param {Clock} clock - clock to schedule the timer with
+ * @returns {Promise<void>} - promise that resolves after the given time
+ */
+const sleep = /*#__PURE__*/ (ms: number, clock: Clock = systemClock): Promise<void> =>
+	new Promise(resolve => clock.setTimeout(resolve, ms))
+
+export { type Clock, systemClock, sleep }
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { type Nil, nil } from "./nil"
+import { type Err, err, isErr } from "./err"
+import { type Ok, isOk } from "./ok"
+import { type MaybeResult, type OrError, type Result, task, all, any } from "./result"
+
+/* === Types === */
+
+type Task<T, E extends Error = Error> = () => Promise<MaybeResult<T, E>>
+
+type ConcurrencyOptions = {
+	concurrency?: number // maximum number of tasks running at the same time, at least 1; defaults to no limit
+	failFast?: boolean // resolve with the first Err instead of waiting for all tasks to settle, defaults to true
+}
+
+/* === Concurrent Tasks === */
+
+/**
+ * Map items through an async function with a limited number of concurrent calls
+ * 
+ * In fail-fast mode, no further items are started after the first Err and the returned promise resolves immediately.
+ * Otherwise all items are settled and all errors are collected. Like in all(), any Nil makes the whole Result Nil.
+ * 
+ * @since 0.11.0
+ * @param {Iterable<I>} items - items to map
+ * @param {(item: I, index: number) => Promise<MaybeResult<T, E>>} fn - async function to apply to each item
+ * @param {ConcurrencyOptions} options - concurrency limit and fail-fast mode
+ * @returns {Promise<Result<T[], AggregateError>>} - promise that resolves to Ok of all values in item order, Nil or Err<AggregateError> of the failures
+ */
+const mapConcurrent = /*#__PURE__*/ <I, T, E extends Error = Error>(
+	items: Iterable<I>,
+	fn: (item: I, index: number) => Promise<MaybeResult<T, E>>,
+	{ concurrency = Infinity, failFast = true }: ConcurrencyOptions = {}
+): Promise<Result<T[], AggregateError>> => new Promise(resolve => {
+	const list = Array.from(items)
+	const results: Result<T, OrError<E>>[] = new Array(list.length)
+	let next = 0
+	let pending = list.length
+	let done = false
+
+	const finish = (errors: OrError<E>[]) => {
+		done = true
+		resolve(errors.length
+			? err(new AggregateError(errors, 'One or more tasks failed'))
+			: all(results) as Ok<T[]> | Nil)
+	}
+
+	const run = async (): Promise<void> => {
+		if (done || next >= list.length) return
+		const index = next++
+		const res = await task(fn, list[index], index)
+		if (done) return
+		results[index] = res
+		if (failFast && isErr(res)) return finish([res.error])
+		if (--pending === 0)
+			return finish(results.filter(isErr).map(res => (res as Err<OrError<E>>).error))
+		return run()
+	}
+
+	if (!pending) return finish([])
+	const workers = Math.min(Math.max(1, Math.floor(concurrency) || 1), list.length)
+	for (let i = 0; i < workers; i++) run()
+})
+
+/**
+ * Run async functions with a limited number of concurrent calls and collect their values
+ * 
+ * @since 0.11.0
+ * @param {Task<T, E>[]} fns - async functions to run
+ * @param {ConcurrencyOptions} options - concurrency limit and fail-fast mode
+ * @returns {Promise<Result<T[], AggregateError>>} - promise that resolves to Ok of all values in order, Nil or Err<AggregateError> of the failures
+ */
+const allTasks = /*#__PURE__*/ <T, E extends Error = Error>(
+	fns: readonly Task<T, E>[],
+	options?: ConcurrencyOptions
+): Promise<Result<T[], AggregateError>> =>
+	mapConcurrent(fns, fn => fn(), options)
+
+/**
+ * Run async functions concurrently and get the Result of the first one to settle, whether Ok, Nil or Err
+ * 
+ * @since 0.11.0
+ * @param {Task<T, E>[]} fns - async functions to run
+ * @returns {Promise<Result<T, OrError<E>>>} - promise that resolves to the first settled Result, or Nil if there are no functions
+ */
+const raceTasks = /*#__PURE__*/ async <T, E extends Error = Error>(
+	fns: readonly Task<T, E>[]
+): Promise<Result<T, OrError<E>>> =>
+	fns.length ? Promise.race(fns.map(fn => task(fn))) : nil()
+
+/**
+ * Run async functions concurrently and get the first Ok value
+ * 
+ * Like in any(), Nil results are skipped and errors are collected if no function succeeded.
+ * 
+ * @since 0.11.0
+ * @param {Task<T, E>[]} fns - async functions to run
+ * @returns {Promise<Result<T, AggregateError>>} - promise that resolves to the first Ok, Err<AggregateError> if there were errors, or Nil
+ */
+const anyTask = /*#__PURE__*/ <T, E extends Error = Error>(
+	fns: readonly Task<T, E>[]
+): Promise<Result<T, AggregateError>> => new Promise(resolve => {
+	const results: Result<T, OrError<E>>[] = new Array(fns.length)
+	let pending = fns.length
+	if (!pending) return resolve(nil())
+	fns.forEach((fn, index) => task(fn).then(res => {
+		if (isOk(res)) return resolve(res)
+		results[index] = res
+		if (--pending === 0) resolve(any(results))
+	}))
+})
+
+export {
+	type Task, type ConcurrencyOptions,
+	mapConcurrent, allTasks, raceTasks, anyTask,
+}
\ No newline at end of file
@@ -0,0 +1,151 @@
+import { isDefined } from "./util"
+import { nil } from "./nil"
+import { err, isErr } from "./err"
+import { ok, isOk } from "./ok"
+import type { Result } from "./result"
+import { ValidationError } from "./validate"
+
+/* === Types === */
+
+type Decoder<T> = (input: unknown) => Result<T, ValidationError>
+
+type Infer<D> = D extends Decoder<infer T> ? T : never
+
+type Shape = Readonly<Record<string, Decoder<unknown>>>
+
+type ObjectType<S extends Shape> = {
+	[K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]>
+} & {
+	[K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]>
+} extends infer O ? { [K in keyof O]: O[K] } : never
+
+type Literal = string | number | boolean
+
+/* === Internal Functions === */
+
+const fail = (expected: string): Result<never, ValidationError> =>
+	err(new ValidationError([], new TypeError(`expected ${expected}`)))
+
+const at = <T>(key: string | number, res: Result<T, ValidationError>): Result<T, ValidationError> =>
+	isErr(res) ? err(new ValidationError([key, ...res.error.path], res.error.cause)) : res
+
+const primitive = <T>(type: string) =>
+	(): Decoder<T> =>
+		(input: unknown) => typeof input === type ? ok(input as T) : fail(type)
+
+/* === Decoders === */
+
+/**
+ * Decode a string
+ * 
+ * @since 0.11.0
+ * @returns {Decoder<string>} - decoder that accepts strings
+ */
+const string = /*#__PURE__*/ primitive<string>('string')
+
+/**
+ * Decode a boolean
+ * 
+ * @since 0.11.0
+ * @returns {Decoder<boolean>} - decoder that accepts booleans
+ */
+const boolean = /*#__PURE__*/ primitive<boolean>('boolean')
+
+/**
+ * Decode a number
+ * 
+ * @since 0.11.0
+ * @returns {Decoder<number>} - decoder that accepts numbers except NaN
+ */
+const number = /*#__PURE__*/ (): Decoder<number> =>
+	(input: unknown) => typeof input === 'number' && !Number.isNaN(input) ? ok(input) : fail('number')
+
+/**
+ * Decode one of a set of literal values
+ * 
+ * @since 0.11.0
+ * @param {L} values - allowed strings, numbers or booleans
+ * @returns {Decoder<L[number]>} - decoder that accepts only the given values
+ */
+const literal = /*#__PURE__*/ <const L extends readonly Literal[]>(...values: L): Decoder<L[number]> =>
+	(input: unknown) => values.includes(input as Literal) ? ok(input as L[number])
+		: fail(values.map(value => JSON.stringify(value)).join(' | '))
+
+/**
+ * Decode an array with a decoder for its items
+ * 
+ * @since 0.11.0
+ * @param {Decoder<T>} decoder - decoder for each item
+ * @returns {Decoder<T[]>} - decoder that accepts arrays and fails with the path of the first invalid item
+ */
+const array = /*#__PURE__*/ <T>(decoder: Decoder<T>): Decoder<T[]> =>
+	(input: unknown) => {
+		if (!Array.isArray(input)) return fail('array')
+		const values: T[] = []
+		for (let i = 0; i < input.length; i++) {
+			const res = at(i, decoder(input[i]))
+			if (isErr(res)) return res
+			values.push(res.get() as T)
+		}
+		return ok(values)
+	}
+
+/**
+ * Decode an object with decoders for its properties
+ * 
+ * Properties without a decoder are left out. Properties with an optional() decoder are optional.
+ * 
+ * @since 0.11.0
+ * @param {S} shape - record of decoders for each property
+ * @returns {Decoder<ObjectType<S>>} - decoder that accepts objects and fails with the path of the first invalid property
+ */
+const object = /*#__PURE__*/ <S extends Shape>(shape: S): Decoder<ObjectType<S>> =>
+	(input: unknown) => {
+		if (!isDefined(input) || typeof input !== 'object' || Array.isArray(input)) return fail('object')
+		const values: Record<string, unknown> = {}
+		for (const [key, decoder] of Object.entries(shape)) {
+			const res = at(key, decoder((input as Record<string, unknown>)[key]))
+			if (isErr(res)) return res
+			if (isOk(res)) values[key] = res.get()
+		}
+		return ok(values as ObjectType<S>)
+	}
+
+/**
+ * Decode an optional value
+ * 
+ * @since 0.11.0
+ * @param {Decoder<T>} decoder - decoder for the value if present
+ * @returns {Decoder<T | undefined>} - decoder that returns Nil for undefined or null
+ */
+const optional = /*#__PURE__*/ <T>(decoder: Decoder<T>): Decoder<T | undefined> =>
+	(input: unknown) => isDefined(input) ? decoder(input) : nil()
+
+/**
+ * Decode a value with the first matching of a set of decoders
+ * 
+ * If no decoder matches, the error with the deepest path is returned, as it comes from the closest match.
+ * 
+ * @since 0.11.0
+ * @param {D} decoders - decoders to try in order
+ * @returns {Decoder<Infer<D[number]>>} - decoder that accepts values matching any of the decoders
+ */
+const union = /*#__PURE__*/ <D extends readonly Decoder<unknown>[]>(...decoders: D): Decoder<Infer<D[number]>> =>
+	(input: unknown) => {
+		const errors: ValidationError[] = []
+		for (const decoder of decoders) {
+			const res = decoder(input)
+			if (!isErr(res)) return res as Result<Infer<D[number]>, ValidationError>
+			errors.push(res.error)
+		}
+		const deepest = errors.reduce<ValidationError | undefined>(
+			(acc, error) => !acc || error.path.length > acc.path.length ? error : acc, undefined)
+		return !deepest ? fail('no decoders')
+			: deepest.path.length ? err(deepest)
+			: fail(errors.map(error => error.cause.message.replace(/^expected /, '')).join(' | '))
+	}
+
+export {
+	type Decoder, type Infer, type Shape, type ObjectType, type Literal,
+	string, boolean, number, literal, array, object, optional, union,
+}
\ No newline at end of file
@@ -1,8 +1,12 @@
 
-import { type Cases, isError, isFunction, isInstanceOf } from "./util"
+import { type Cases, isError, isFunction, isInstanceOf, registerImmutable, runEffect } from "./util"
 import { type Nil, nil } from "./nil"
 import { type Maybe, maybe } from "./maybe"
-import { type MaybeResult, type Result, result } from "./result"
+import { type MaybeResult, type OrError, type Result, type ResultValue, type ResultError, result } from "./result"
+import { type TagOf, isTagged } from "./tagged"
+import { type ErrorObject, ContextError, errorToObject } from "./cause"
+import type { SerializedErr } from "./serialize"
+import { AsyncResult } from "./async"
 
 /* === Class Err === */
 
@@ -22,7 +26,37 @@ class Err<E extends Error> {
 	 */
 	map(_: any): Err<E> { return this }
 	chain(_: any): Err<E> { return this }
-	async await(_: any): Promise<Err<E>> { return this }
+	await(_: unknown, __?: AbortSignal): AsyncResult<never, E> { return new AsyncResult<never, E>(Promise.resolve(this)) }
+	tap(_: unknown): Err<E> { return this }
+	tapNil(_: unknown): Err<E> { return this }
+
+	/**
+	 * Run a side effect with the error without changing it
+	 * 
+	 * Errors thrown by the side effect are logged and never replace the Result.
+	 * 
+	 * @since 0.11.0
+	 * @param {(error: E) => unknown} fn - the side effect
+	 * @returns {Err<E>} - the unchanged "Err"
+	 */
+	tapErr(fn: (error: E) => unknown): Err<E> {
+		runEffect(fn, this.error)
+		return this
+	}
+
+	/**
+	 * Run a side effect when the chain is done, whatever the Result
+	 * 
+	 * Errors thrown by the side effect are logged and never replace the Result.
+	 * 
+	 * @since 0.11.0
+	 * @param {() => unknown} fn - the side effect
+	 * @returns {Err<E>} - the unchanged "Err"
+	 */
+	finally(fn: () => unknown): Err<E> {
+		runEffect(fn)
+		return this
+	}
 
 	/**
 	 * Filter the error
@@ -44,19 +78,88 @@ class Err<E extends Error> {
 	 * 
 	 * @since 0.9.0
 	 * @param {function} fn - a function that takes the error and returns a new "Maybe"
-	 * @returns {Maybe<T>} - a new "Maybe" containing the result of the passed through function
+	 * @returns {Result<T, F>} - a new "Result" containing the result of the passed through function
 	 */
-	catch = /*#__PURE__*/ <T>(fn: (error: E) => MaybeResult<T>): Result<T> => result(() => fn(this.error))
+	catch = /*#__PURE__*/ <T, F extends Error = Error>(
+		fn: (error: E) => MaybeResult<T, F>
+	): Result<T, F> => result(() => fn(this.error))
+
+	/**
+	 * Catch only errors with a given tag and pass all other errors through
+	 * 
+	 * @since 0.11.0
+	 * @param {K} tag - the tag of the errors to catch
+	 * @param {function} fn - a function that takes the tagged error and returns a new "Result"
+	 * @returns {Result<ResultValue<R>, ResultError<R> | Exclude<E, { _tag: K }>>} - the result of the passed through function or the passed through "Err"
+	 */
+	catchTag = /*#__PURE__*/ <K extends TagOf<E>, R>(
+		tag: K,
+		fn: (error: Extract<E, { _tag: K }>) => R
+	): Result<ResultValue<R>, OrError<ResultError<R> | Exclude<E, { _tag: K }>>> =>
+		isTagged(this.error, tag)
+			? result<any, any>(() => fn(this.error as Extract<E, { _tag: K }>))
+			: this as Err<any>
+
+	/**
+	 * Catch only errors that are instances of a given class and pass all other errors through
+	 * 
+	 * @since 0.11.0
+	 * @param {new (...args: any[]) => C} type - the class of the errors to catch
+	 * @param {function} fn - a function that takes the error and returns a new "Result"
+	 * @returns {Result<ResultValue<R>, ResultError<R> | Exclude<E, C>>} - the result of the passed through function or the passed through "Err"
+	 */
+	catchIf = /*#__PURE__*/ <C extends Error, R>(
+		type: abstract new (...args: any[]) => C,
+		fn: (error: C) => R
+	): Result<ResultValue<R>, OrError<ResultError<R> | Exclude<E, C>>> =>
+		this.error instanceof type
+			? result<any, any>(() => fn(this.error as Error as C))
+			: this as Err<any>
+
+	/**
+	 * Wrap the error in a "ContextError" describing what was being done, keeping the original error as its cause
+	 * 
+	 * @since 0.11.0
+	 * @param {string} message - description of the operation that failed, like 'loading user profile'
+	 * @returns {Err<ContextError<E>>} - a new "Err" containing the wrapping error
+	 */
+	context = /*#__PURE__*/ (message: string): Err<ContextError<E>> =>
+		new Err(new ContextError(message, this.error))
+
+	/**
+	 * Map the error to a different error
+	 * 
+	 * If the new error has no cause of its own, the original error becomes its cause.
+	 * 
+	 * @since 0.11.0
+	 * @param {function} fn - a function that takes the error and returns a new error
+	 * @returns {Err<F>} - a new "Err" containing the new error
+	 */
+	mapErr = /*#__PURE__*/ <F extends Error>(fn: (error: E) => F): Err<F> => {
+		const error = fn(this.error)
+		if (error as Error !== this.error && error.cause === undefined)
+			Object.defineProperty(error, 'cause', {
+				value: this.error, writable: true, configurable: true
+			})
+		return new Err(error)
+	}
 
 	/**
 	 * Match Err with a set of cases
 	 * 
+	 * The Err case may be a function for all errors or an object with functions for tagged errors by their tag.
+	 * 
 	 * @since 0.9.0
 	 * @param {Cases<undefined, E>} cases - a set of cases to match against
-	 * @returns {any} - the result of matching the cases or the passed through "Err"
+	 * @returns {any} - the result of matching the cases, the default function or the passed through "Err"
 	 */
 	match(cases: Cases<undefined, E>): any {
-		return isFunction(cases.Err) ? cases.Err(this.error) : this
+		const handler = isFunction(cases.Err) ? cases.Err
+			: cases.Err && isTagged(this.error) ? (cases.Err as Record<string, unknown>)[this.error._tag]
+			: undefined
+		return isFunction(handler) ? handler(this.error)
+			: isFunction(cases.default) ? cases.default(this)
+			: this
 	}
 
 	/**
@@ -68,17 +171,55 @@ class Err<E extends Error> {
 	get() {
 		throw this.error
 	}
+
+	/**
+	 * Re-throw the contained error, same as get()
+	 * 
+	 * @since 0.11.0
+	 * @throws E
+	 */
+	peek(): never {
+		throw this.error
+	}
+
+	/**
+	 * No-op for "Err"; the function is not called
+	 * 
+	 * @since 0.11.0
+	 * @returns {undefined}
+	 */
+	borrow(_: unknown): undefined { return undefined }
+
+	/**
+	 * Convert "Err" into a tagged plain object for JSON, without stack traces
+	 * 
+	 * @since 0.11.0
+	 * @returns {SerializedErr} - plain object { type: 'err', error: { name, message, cause, ... } }
+	 */
+	toJSON(): SerializedErr {
+		return { type: 'err', error: errorToObject(this.error, false) as ErrorObject }
+	}
+
+	/**
+	 * Iterate over "Err" for use with yield* in gen()
+	 * 
+	 * @since 0.11.0
+	 * @returns {Generator<Err<E>, never>} - a generator that yields "Err" to short-circuit
+	 */
+	*[Symbol.iterator](): Generator<Err<E>, never, unknown> {
+		return (yield this) as never
+	}
 }
 
 /**
  * Create a new "Err" value from an Error or any other value
  * 
  * @since 0.9.6
- * @param {unknown} error - the error to create an "Err" value from
- * @returns {Err<Error>} - the new "Err" value
+ * @param {E} error - the error to create an "Err" value from
+ * @returns {Err<E extends Error ? E : Error>} - the new "Err" value, typed by the passed in error
  */
-const err = /*#__PURE__*/ (error: unknown): Err<Error> =>
-	new Err(isError(error) ? error : new Error(String(error)))
+const err = /*#__PURE__*/ <E = Error>(error: E): Err<E extends Error ? E : Error> =>
+	new Err(isError(error) ? error : new Error(String(error))) as Err<E extends Error ? E : Error>
 
 /**
  * Check if this is an "Err" value
@@ -89,4 +230,6 @@ const err = /*#__PURE__*/ (error: unknown): Err<Error> =>
  */
 const isErr = isInstanceOf(Err)
 
+registerImmutable(Err)
+
 export { Err, err, isErr }
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { type Nil } from "./nil"
+import { type Err, err } from "./err"
+import { isOk } from "./ok"
+import { type MaybeResult, type Result, type ResultValue, type ResultError, wrap } from "./result"
+
+/* === Generator Functions === */
+
+/**
+ * Run a generator function with do-notation for Results
+ * 
+ * Use `yield*` on a Result to get its Ok value; the first Nil or Err short-circuits and is returned.
+ * 
+ * @since 0.11.0
+ * @param {() => Generator<Y, R>} fn - generator function yielding Results
+ * @returns {Result<ResultValue<R>, ResultError<Y | R>>} - the returned value wrapped in a Result, or the first Nil or Err
+ */
+const gen = /*#__PURE__*/ <Y extends Nil | Err<Error>, R>(
+	fn: () => Generator<Y, R, any>
+): Result<ResultValue<R>, ResultError<Y | R>> => {
+	try {
+		const iterator = fn()
+		let step = iterator.next()
+		while (!step.done) {
+			const res = wrap(step.value as MaybeResult<unknown>)
+			if (!isOk(res)) {
+				iterator.return(undefined as any)
+				return res as Nil | Err<ResultError<Y | R>>
+			}
+			step = iterator.next(res.get())
+		}
+		return wrap(step.value as MaybeResult<ResultValue<R>, ResultError<Y | R>>)
+	} catch (error) {
+		return err(error) as Err<ResultError<Y | R>>
+	}
+}
+
+/**
+ * Run an async generator function with do-notation for Results
+ * 
+ * Use `yield* await` on a Promise of a Result to get its Ok value; the first Nil or Err short-circuits and is returned.
+ * 
+ * @since 0.11.0
+ * @param {() => AsyncGenerator<Y, R>} fn - async generator function yielding Results
+ * @returns {Promise<Result<ResultValue<R>, ResultError<Y | R>>>} - promise that resolves to the returned value wrapped in a Result, or the first Nil or Err
+ */
+const genAsync = /*#__PURE__*/ async <Y extends Nil | Err<Error>, R>(
+	fn: () => AsyncGenerator<Y, R, any>
+): Promise<Result<ResultValue<R>, ResultError<Y | R>>> => {
+	try {
+		const iterator = fn()
+		let step = await iterator.next()
+		while (!step.done) {
+			const res = wrap(await (step.value as MaybeResult<unknown>))
+			if (!isOk(res)) {
+				await iterator.return(undefined as any)
+				return res as Nil | Err<ResultError<Y | R>>
+			}
+			step = await iterator.next(res.get())
+		}
+		return wrap(step.value as MaybeResult<ResultValue<R>, ResultError<Y | R>>)
+	} catch (error) {
+		return err(error) as Err<ResultError<Y | R>>
+	}
+}
+
+export { gen, genAsync }
\ No newline at end of file
@@ -0,0 +1,111 @@
+import { isDefined, isError } from "./util"
+import { maybe } from "./maybe"
+import { type Err, err, isErr } from "./err"
+import { type MaybeResult, type OrError, type Result, type ResultValue, type ResultError, task, wrap } from "./result"
+import { type AsyncResult } from "./async"
+
+/* === Types === */
+
+type Callback<T> = (error: unknown, value?: T) => void
+type UnionKeys<Tag extends string = 'ok', V extends string = 'value', F extends string = 'error'> = {
+	tag?: Tag // name of the boolean success flag, defaults to 'ok'
+	value?: V // name of the value property, defaults to 'value'
+	error?: F // name of the error property, defaults to 'error'
+}
+type Union<T, E, Tag extends string = 'ok', V extends string = 'value', F extends string = 'error'> =
+	| (Record<Tag, true> & Record<V, T>)
+	| (Record<Tag, false> & Record<F, E>)
+type UnionValue<U, V extends string> = U extends Record<V, infer T> ? T : never
+type UnionError<U, F extends string> = U extends Record<F, infer E> ? E extends Error ? E : never : never
+
+/* === Internal Functions === */
+
+const toError = (error: unknown): Error =>
+	isError(error) ? error
+		: typeof error === 'string' ? new Error(error)
+		: new Error(typeof (error as Error)?.message === 'string' ? (error as Error).message : String(error), { cause: error })
+
+/* === Interop === */
+
+/**
+ * Turn a function with a Node-style callback as last argument into a function returning an AsyncResult
+ * 
+ * The callback is called with an error or a falsy first argument and the value as second argument.
+ * Like the if (error) check in Node, falsy first arguments such as 0 or an empty string are no errors.
+ * Like in task(), an AbortSignal among the arguments resolves to an Err as soon as the signal is aborted.
+ * 
+ * @since 0.11.0
+ * @param {(...args: [...A, Callback<T>]) => void} fn - function that takes a callback as last argument
+ * @returns {(...args: A) => AsyncResult<T, OrError<E>>} - function that returns an AsyncResult instead of calling back
+ */
+const fromCallback = /*#__PURE__*/ <A extends unknown[], T, E extends Error = Error>(
+	fn: (...args: [...A, Callback<T>]) => void
+) => (...args: A): AsyncResult<T, OrError<E>> =>
+	task<T, E>((...args: A) => new Promise<T>((resolve, reject) => {
+		fn(...args, (error, value) => error ? reject(toError(error)) : resolve(value as T))
+	}), ...args)
+
+/**
+ * Convert a Result, or a promise for it, into a promise for its value
+ * 
+ * @since 0.11.0
+ * @param {R} res - Result, AsyncResult or promise for a Result
+ * @returns {Promise<ResultValue<Awaited<R>> | undefined>} - promise that resolves to the Ok value, undefined for Nil, or rejects with the error of Err
+ */
+const toPromise = /*#__PURE__*/ async <R extends MaybeResult<unknown> | PromiseLike<MaybeResult<unknown>>>(
+	res: R
+): Promise<ResultValue<Awaited<R>> | undefined> => {
+	const settled = wrap(await res)
+	if (isErr(settled)) throw settled.error
+	return settled.get() as ResultValue<Awaited<R>> | undefined
+}
+
+/**
+ * Convert a discriminated-union object like { ok: true, value } or { ok: false, error } into a Result
+ * 
+ * If the object has no tag property, it is considered failed when the error property is not nullish,
+ * as in { data, error } objects. Nullish values become Nil; error values that are not Errors are wrapped in one.
+ * 
+ * @since 0.11.0
+ * @param {U} union - discriminated-union object
+ * @param {UnionKeys<Tag, V, F>} keys - names of the tag, value and error properties
+ * @returns {Result<UnionValue<U, V>, OrError<UnionError<U, F>>>} - Ok of the value, Nil or Err of the error
+ */
+const fromUnion = /*#__PURE__*/ <U extends object, V extends string = 'value', F extends string = 'error'>(
+	union: U,
+	{ tag = 'ok', value = 'value' as V, error = 'error' as F }: UnionKeys<string, V, F> = {}
+): Result<UnionValue<U, V>, OrError<UnionError<U, F>>> => {
+	const record = union as Record<string, unknown>
+	const failed = tag in record ? !record[tag] : isDefined(record[error])
+	return failed
+		? err(toError(record[error])) as Err<OrError<UnionError<U, F>>>
+		: maybe(record[value] as UnionValue<U, V>)
+}
+
+/**
+ * Convert a Result into a discriminated-union object like { ok: true, value } or { ok: false, error }
+ * 
+ * Nil is converted into a successful object with an undefined value.
+ * 
+ * @since 0.11.0
+ * @param {Result<T, E>} res - the Result to convert
+ * @param {UnionKeys<Tag, V, F>} keys - names of the tag, value and error properties
+ * @returns {Union<T | undefined, E, Tag, V, F>} - discriminated-union object
+ */
+const toUnion = /*#__PURE__*/ <
+	R extends Result<unknown, Error>,
+	Tag extends string = 'ok',
+	V extends string = 'value',
+	F extends string = 'error'
+>(
+	res: R,
+	{ tag = 'ok' as Tag, value = 'value' as V, error = 'error' as F }: UnionKeys<Tag, V, F> = {}
+): Union<ResultValue<R> | undefined, ResultError<R>, Tag, V, F> => (isErr(res)
+	? { [tag]: false, [error]: res.error }
+	: { [tag]: true, [value]: res.get() }
+) as Union<ResultValue<R> | undefined, ResultError<R>, Tag, V, F>
+
+export {
+	type Callback, type UnionKeys, type Union,
+	fromCallback, toPromise, fromUnion, toUnion,
+}
\ No newline at end of file
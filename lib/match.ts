@@ -0,0 +1,69 @@
+import { type Cases, type TagCases, isFunction } from "./util"
+import type { Ok } from "./ok"
+import type { Nil } from "./nil"
+import { type Err, isErr } from "./err"
+import type { Result, ResultValue, ResultError } from "./result"
+
+/* === Types === */
+
+type ExhaustiveCases<T, E extends Error = Error> = Cases<T, E> & (
+	| { default: (result: Result<T, E>) => any }
+	| { Ok: (value: T) => any, Nil: () => any, Err: ((error: E) => any) | Required<TagCases<E>> }
+)
+
+type Fallback<C, F> = C extends { default: (...args: any[]) => infer D } ? D : F
+
+type TagReturn<H> = { [K in keyof H]: H[K] extends (...args: any[]) => infer A ? A : never }[keyof H]
+
+type MatchOk<T, C> = C extends { Ok: (...args: any[]) => infer A } ? A : Fallback<C, Ok<T>>
+type MatchNil<C> = C extends { Nil: (...args: any[]) => infer A } ? A : Fallback<C, Nil>
+type MatchErr<E extends Error, C> = C extends { Err: (...args: any[]) => infer A } ? A
+	: C extends { Err: infer H extends object }
+		? TagReturn<H> | ([Exclude<E, { _tag: keyof H }>] extends [never] ? never : Fallback<C, Err<Exclude<E, { _tag: keyof H }>>>)
+	: Fallback<C, Err<E>>
+type MatchGone<C> = C extends { Gone: (...args: any[]) => infer A } ? A : never
+
+type Matched<T, E extends Error, C> = MatchOk<T, C> | MatchNil<C> | MatchErr<E, C> | MatchGone<C>
+
+/* === Match Functions === */
+
+/**
+ * Match a Result with a set of cases and infer the union of their return types
+ * 
+ * Like the match() method, unmatched Results are passed through, unless there is a default case.
+ * 
+ * @since 0.11.0
+ * @param {R} res - the Result to match
+ * @param {C} cases - a set of cases to match against
+ * @returns {Matched<ResultValue<R>, ResultError<R>, C>} - the result of the matching case or the passed through Result
+ */
+const match = /*#__PURE__*/ <R extends Result<unknown, any>, C extends Cases<ResultValue<R>, ResultError<R>>>(
+	res: R,
+	cases: C
+): Matched<ResultValue<R>, ResultError<R>, C> => res.match(cases as Cases<any, any>)
+
+/**
+ * Match a Result with a set of cases that must cover all of Ok, Nil and Err, or have a default case
+ * 
+ * If no case matches at runtime, for example an unhandled error tag, a TypeError is thrown with the unmatched error as cause.
+ * 
+ * @since 0.11.0
+ * @param {R} res - the Result to match
+ * @param {C} cases - an exhaustive set of cases to match against
+ * @returns {Matched<ResultValue<R>, ResultError<R>, C>} - the result of the matching case
+ * @throws {TypeError} - if no case matches
+ */
+const matchStrict = /*#__PURE__*/ <R extends Result<unknown, any>, C extends ExhaustiveCases<ResultValue<R>, ResultError<R>>>(
+	res: R,
+	cases: C
+): Matched<ResultValue<R>, ResultError<R>, C> => res.match({
+	...cases,
+	default: isFunction(cases.default) ? cases.default : (res: Result<unknown, Error>) => {
+		throw new TypeError('No case matched', isErr(res) ? { cause: res.error } : undefined)
+	},
+} as Cases<any, any>)
+
+export {
+	type ExhaustiveCases, type Matched,
+	match, matchStrict,
+}
\ No newline at end of file
@@ -1,6 +1,8 @@
 
-import { type Cases, isFunction } from "./util"
+import { type Cases, isFunction, registerImmutable, runEffect } from "./util"
 import { type Maybe, maybe } from "./maybe"
+import type { SerializedNil } from "./serialize"
+import { AsyncResult } from "./async"
 
 /* === Class Nil === */
 
@@ -19,10 +21,44 @@ class Nil {
 	 */
 	map(_: any): Nil { return this }
 	chain(_: any): Nil { return this }
-	async await(_: any): Promise<Nil> { return this }
+	await(_: unknown, __?: AbortSignal): AsyncResult<never, never> { return new AsyncResult<never, never>(Promise.resolve(this)) }
 	filter(_: any): Nil { return this }
 	guard(_: any): Nil { return this }
-	catch(_: any): Nil { return this }
+	catch(_: unknown): Nil { return this }
+	catchTag(_: unknown, __: unknown): Nil { return this }
+	catchIf(_: unknown, __: unknown): Nil { return this }
+	context(_: unknown): Nil { return this }
+	mapErr(_: unknown): Nil { return this }
+	tap(_: unknown): Nil { return this }
+	tapErr(_: unknown): Nil { return this }
+
+	/**
+	 * Run a side effect for "Nil" without changing it
+	 * 
+	 * Errors thrown by the side effect are logged and never replace the Result.
+	 * 
+	 * @since 0.11.0
+	 * @param {() => unknown} fn - the side effect
+	 * @returns {Nil} - the unchanged "Nil"
+	 */
+	tapNil(fn: () => unknown): Nil {
+		runEffect(fn)
+		return this
+	}
+
+	/**
+	 * Run a side effect when the chain is done, whatever the Result
+	 * 
+	 * Errors thrown by the side effect are logged and never replace the Result.
+	 * 
+	 * @since 0.11.0
+	 * @param {() => unknown} fn - the side effect
+	 * @returns {Nil} - the unchanged "Nil"
+	 */
+	finally(fn: () => unknown): Nil {
+		runEffect(fn)
+		return this
+	}
 
 	/**
      * Provide an alternative value
@@ -38,10 +74,12 @@ class Nil {
 	 * 
 	 * @since 0.9.0
 	 * @param {Cases<undefined, Error>} cases - a set of cases to match against
-	 * @returns {any} - the result of matching the cases or the passed through "Nil"
+	 * @returns {any} - the result of the Nil function in cases, the default function or the passed through "Nil"
 	 */
 	match(cases: Cases<undefined, Error>): any {
-		return isFunction(cases.Nil) ? cases.Nil() : this
+		return isFunction(cases.Nil) ? cases.Nil()
+			: isFunction(cases.default) ? cases.default(this)
+			: this
 	}
 	
 	/**
@@ -51,6 +89,42 @@ class Nil {
 	 * @returns {void}
 	 */
 	get = /*#__PURE__*/ (): void => {}
+
+	/**
+	 * Read the "Nil" value, same as get()
+	 * 
+	 * @since 0.11.0
+	 * @returns {void}
+	 */
+	peek = /*#__PURE__*/ (): void => {}
+
+	/**
+	 * No-op for "Nil"; the function is not called
+	 * 
+	 * @since 0.11.0
+	 * @returns {undefined}
+	 */
+	borrow(_: unknown): undefined { return undefined }
+
+	/**
+	 * Convert "Nil" into a tagged plain object for JSON
+	 * 
+	 * @since 0.11.0
+	 * @returns {SerializedNil} - plain object { type: 'nil' }
+	 */
+	toJSON(): SerializedNil {
+		return { type: 'nil' }
+	}
+
+	/**
+	 * Iterate over "Nil" for use with yield* in gen()
+	 * 
+	 * @since 0.11.0
+	 * @returns {Generator<Nil, never>} - a generator that yields "Nil" to short-circuit
+	 */
+	*[Symbol.iterator](): Generator<Nil, never, unknown> {
+		return (yield this) as never
+	}
 }
 
 /**
@@ -71,4 +145,6 @@ const nil = /*#__PURE__*/ (): Nil => Nil.instance
 const isNil = /*#__PURE__*/ (value: unknown): value is Nil  =>
 	value === Nil.instance
 
+registerImmutable(Nil)
+
 export { Nil, nil, isNil }
\ No newline at end of file
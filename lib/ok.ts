@@ -1,30 +1,47 @@
-import { type Cases, isFunction, isInstanceOf, isMutable, tryClone } from './util'
+import { type Cases, isError, isFunction, isInstanceOf, isMutable, tryClone, deepFreeze, registerImmutable, runEffect } from './util'
 import { nil } from './nil'
-import { err } from './err'
+import { type Err, err } from './err'
 import type { Maybe } from './maybe'
-import { type MaybeResult, type Result, result, task } from './result'
+import { type MaybeResult, type OrError, type Result, result, task, isResult } from './result'
+import type { SerializedOk } from './serialize'
+import { AsyncResult } from './async'
 
 /* === Constants === */
 
 const consumedError = new ReferenceError('Mutable reference has already been consumed')
 const UNSET: any = Symbol()
 
+/* === Types === */
+
+type Ownership = 'owned' | 'frozen' | 'shared'
+
+/* === Internal === */
+
+let defaultOwnership: Ownership = 'owned'
+
 /* === Class Ok === */
 
 /**
  * Create an "Ok" value, representing a value
  * 
+ * Depending on the ownership mode, mutable values are cloned and can be consumed only once ('owned'),
+ * deeply frozen and can be read any number of times ('frozen'), or shared without cloning ('shared').
+ * map(), chain() and await() keep the mode for plain values returned by their functions.
+ * 
  * @since 0.9.0
  * @class Ok<T>
  * @property {NonNullable<T>} value - the value
+ * @property {Ownership} mode - the ownership mode of the value
  */
 class Ok<T> {
 	private value: T
 	private mut: boolean
 
-	constructor(value: T) {
-		this.value = tryClone(value, false)
-		this.mut = isMutable(value)
+	constructor(value: T, readonly mode: Ownership = defaultOwnership) {
+		this.value = mode === 'owned' ? tryClone(value)
+			: mode === 'frozen' ? deepFreeze(value)
+			: value
+		this.mut = mode === 'owned' && isMutable(value)
 	}
 
 	/**
@@ -43,29 +60,35 @@ class Ok<T> {
 	 */
 	map<U extends {}>(fn: (value: T) => NonNullable<U>): Ok<U> {
 		if (this.gone) throw consumedError
-        return ok(fn(this.value))
+        return ok(fn(this.value), this.mode)
     }
 
 	/**
 	 * Apply a function to the Ok value and return its resulting Result instance
 	 * 
 	 * @since 0.9.0
-	 * @param {(value: T) => MaybeResult<U>} fn - the function to apply
-	 * @returns {Result<U>} - the new Result instance of the function applied to the value
+	 * @param {(value: T) => MaybeResult<U, E>} fn - the function to apply
+	 * @returns {Result<U, E>} - the new Result instance of the function applied to the value
 	 */
-	chain<U>(fn: (value: T) => MaybeResult<U>): Result<U> {
-        return this.gone ? err(consumedError) : result(() => fn(this.value))
+	chain<U, E extends Error = Error>(fn: (value: T) => MaybeResult<U, E>): Result<U, E> {
+        return this.gone ? err(consumedError) as Err<E> : result(() => own(fn(this.value), this.mode))
     }
 
 	/**
 	 * Apply an asynchronous function to the Ok value and return its resulting Result instance
 	 * 
 	 * @since 0.9.0
-	 * @param {(value: T) => Promise<MaybeResult<U>>} fn - the async function to apply
-	 * @returns {Promise<Result<U>>} - the new Result instance wrapped in a Promise
+	 * @param {(value: T, signal?: AbortSignal) => Promise<MaybeResult<U, E>>} fn - the async function to apply
+	 * @param {AbortSignal} [signal] - optional signal to abort the function with; passed on as second argument
+	 * @returns {AsyncResult<U, OrError<E>>} - the new Result instance wrapped in an AsyncResult
 	 */
-	async await<U>(fn: (value: T) => Promise<MaybeResult<U>>): Promise<Result<U>> {
-		return this.gone ? Promise.resolve(err(consumedError)) : task(() => fn(this.value))
+	await<U, E extends Error = Error>(
+		fn: (value: T, signal?: AbortSignal) => PromiseLike<MaybeResult<U, E>>,
+		signal?: AbortSignal
+	): AsyncResult<U, OrError<E>> {
+		if (this.gone) return new AsyncResult(Promise.resolve(err(consumedError) as Err<OrError<E>>))
+		const value = this.value
+		return task(async (signal?: AbortSignal) => own(await fn(value, signal), this.mode), signal)
 	}
 
 	/**
@@ -86,18 +109,56 @@ class Ok<T> {
 	 * No-op methods for Ok
 	 */
 	or(_: any): Ok<T> { return this }
-	catch(_: any): Ok<T> { return this }
+	catch(_: unknown): Ok<T> { return this }
+	catchTag(_: unknown, __: unknown): Ok<T> { return this }
+	catchIf(_: unknown, __: unknown): Ok<T> { return this }
+	context(_: unknown): Ok<T> { return this }
+	mapErr(_: unknown): Ok<T> { return this }
+	tapErr(_: unknown): Ok<T> { return this }
+	tapNil(_: unknown): Ok<T> { return this }
+
+	/**
+	 * Run a side effect with the Ok value without changing or consuming it
+	 * 
+	 * Errors thrown by the side effect are logged and never replace the Result.
+	 * 
+	 * @since 0.11.0
+	 * @param {(value: Readonly<T>) => unknown} fn - the side effect, which must not mutate the value
+	 * @returns {Ok<T>} - the unchanged Ok instance
+	 */
+	tap(fn: (value: Readonly<T>) => unknown): Ok<T> {
+		if (!this.gone) runEffect(fn, this.value)
+		return this
+	}
+
+	/**
+	 * Run a side effect when the chain is done, whatever the Result
+	 * 
+	 * Errors thrown by the side effect are logged and never replace the Result.
+	 * 
+	 * @since 0.11.0
+	 * @param {() => unknown} fn - the side effect
+	 * @returns {Ok<T>} - the unchanged "Ok"
+	 */
+	finally(fn: () => unknown): Ok<T> {
+		runEffect(fn)
+		return this
+	}
 
 	/**
 	 * Match the Ok value with a set of cases
 	 * 
 	 * @since 0.9.0
 	 * @param {Cases<T>} cases - a set of cases to match against
-	 * @returns {any} - the result of the Ok function in cases or the original Ok instance
+	 * @returns {any} - the result of the Ok function in cases, the default function or the original Ok instance
 	 */
 	match(cases: Cases<T, Error>): any {
-		if (this.gone) return isFunction(cases.Gone) ? cases.Gone() : err(consumedError)
-		return isFunction(cases.Ok) ? cases.Ok(this.value) : this
+		if (this.gone) return isFunction(cases.Gone) ? cases.Gone()
+			: isFunction(cases.default) ? cases.default(this)
+			: err(consumedError)
+		return isFunction(cases.Ok) ? cases.Ok(this.value)
+			: isFunction(cases.default) ? cases.default(this)
+			: this
     }
 
 	/**
@@ -112,6 +173,49 @@ class Ok<T> {
 		if (this.mut) this.value = UNSET
 		return val
 	}
+
+	/**
+	 * Read the Ok value without consuming it
+	 * 
+	 * @since 0.11.0
+	 * @returns {Readonly<T>} - the value, which must not be mutated
+	 */
+	peek(): Readonly<T> {
+		if (this.gone) throw consumedError
+		return this.value
+	}
+
+	/**
+	 * Pass the Ok value to a function without consuming it
+	 * 
+	 * @since 0.11.0
+	 * @param {(value: Readonly<T>) => U} fn - a function that reads the value and must not mutate or keep it
+	 * @returns {U} - the return value of the function
+	 */
+	borrow<U>(fn: (value: Readonly<T>) => U): U {
+		return fn(this.peek())
+	}
+
+	/**
+	 * Convert the Ok value into a tagged plain object for JSON
+	 * 
+	 * @since 0.11.0
+	 * @returns {SerializedOk<T>} - plain object { type: 'ok', value }
+	 */
+	toJSON(): SerializedOk<T> {
+		if (this.gone) throw consumedError
+		return { type: 'ok', value: this.value }
+	}
+
+	/**
+	 * Iterate over the Ok value for use with yield* in gen()
+	 * 
+	 * @since 0.11.0
+	 * @returns {Generator<never, T>} - a generator that yields nothing and returns the value
+	 */
+	*[Symbol.iterator](): Generator<never, T, unknown> {
+		return this.get()
+	}
 }
 
 /**
@@ -119,9 +223,41 @@ class Ok<T> {
  * 
  * @since 0.9.6
  * @param {NonNullable<T>} value - the value
+ * @param {Ownership} [mode] - ownership mode for the value; defaults to the global mode
  * @returns {Ok<T>} - the Ok instance
  */
-const ok = /*#__PURE__*/ <T>(value: T): Ok<T> => new Ok(value)
+const ok = /*#__PURE__*/ <T>(value: T, mode?: Ownership): Ok<T> => new Ok(value, mode)
+
+/**
+ * Wrap a plain value returned by a function in an Ok with the given ownership mode
+ * 
+ * Nullish values, Results and errors are returned as they are, to be wrapped by wrap().
+ * 
+ * @since 0.11.0
+ * @param {V} value - the value returned by a function
+ * @param {Ownership} [mode] - ownership mode for the value; defaults to the global mode
+ * @returns {V} - an Ok instance for a plain value, otherwise the value itself
+ */
+const own = /*#__PURE__*/ <V>(value: V, mode?: Ownership): V =>
+	value == null || isResult(value) || isError(value) ? value : ok(value, mode) as V
+
+/**
+ * Set the global ownership mode for new Ok values
+ * 
+ * @since 0.11.0
+ * @param {Ownership} mode - 'owned' to clone and consume (default), 'frozen' to deeply freeze, 'shared' to neither clone nor consume
+ */
+const setOwnership = (mode: Ownership): void => {
+	defaultOwnership = mode
+}
+
+/**
+ * Get the global ownership mode for new Ok values
+ * 
+ * @since 0.11.0
+ * @returns {Ownership} - the current global ownership mode
+ */
+const getOwnership = (): Ownership => defaultOwnership
 
 /**
  * Check if a value is an instance of Ok
@@ -132,6 +268,9 @@ const ok = /*#__PURE__*/ <T>(value: T): Ok<T> => new Ok(value)
  */
 const isOk = isInstanceOf(Ok)
 
+// Results manage ownership of their values themselves and are never cloned or frozen as part of another value
+registerImmutable(Ok)
+
 /**
  * Check if the Ok value has been consumed
  * 
@@ -142,4 +281,4 @@ const isOk = isInstanceOf(Ok)
 const isGone = (value: unknown): boolean =>
 	isOk(value) && value.gone
 
-export { Ok, ok, isOk, isGone }
\ No newline at end of file
+export { type Ownership, Ok, ok, own, isOk, isGone, setOwnership, getOwnership }
\ No newline at end of file
@@ -0,0 +1,103 @@
+import { isError, isFunction } from "./util"
+import { ok, isOk } from "./ok"
+import { nil, isNil } from "./nil"
+import { type Err, err, isErr } from "./err"
+import { type Result, type ResultValue, type ResultError, task } from "./result"
+import { AsyncResult } from "./async"
+
+/* === Types === */
+
+type Release<R, T = unknown> = (resource: R, result: Result<T, Error>) => unknown
+
+type Resource<A> = {
+	use: <U>(fn: (resource: ResultValue<Awaited<A>>) => U) => AsyncResult<
+		ResultValue<Awaited<U>>,
+		ResultError<Awaited<A>> | ResultError<Awaited<U>> | ReleaseError
+	>
+}
+
+/* === Class ReleaseError === */
+
+/**
+ * Error of a failed release, with the Result of using the resource attached
+ * 
+ * @since 0.11.0
+ * @class ReleaseError
+ * @property {unknown} cause - the error thrown by the release function
+ * @property {Result<unknown, Error>} result - the Result of using the resource, whether Ok, Nil or Err
+ */
+class ReleaseError extends Error {
+	constructor(cause: unknown, public readonly result: Result<unknown, Error>) {
+		super('Failed to release resource', { cause })
+		this.name = 'ReleaseError'
+	}
+}
+
+/* === Internal Functions === */
+
+const dispose = (resource: any): unknown =>
+	isFunction(resource?.[Symbol.asyncDispose]) ? resource[Symbol.asyncDispose]()
+		: isFunction(resource?.[Symbol.dispose]) ? resource[Symbol.dispose]()
+		: undefined
+
+const view = <T, E extends Error>(res: Result<T, E>): Result<T, E> =>
+	isOk(res) ? ok(res.peek() as T, 'shared') : res
+
+/* === Exported Functions === */
+
+/**
+ * Acquire a resource, use it and release it, whatever the Result of using it
+ * 
+ * The resource is not wrapped in Ok, so it is neither cloned nor consumed. If acquire fails or returns Nil,
+ * use and release are not called. Without a release function, Symbol.asyncDispose or Symbol.dispose of
+ * the resource is called. If release fails, the Result is an Err<ReleaseError> with the Result of use attached.
+ * The release function receives a shared view of the Result of use, so reading it does not consume the Result
+ * returned to the caller; it must not mutate its value.
+ * 
+ * @since 0.11.0
+ * @param {() => A} acquire - sync or async function returning the resource or a Result of it
+ * @param {(resource: R) => U} use - sync or async function using the resource
+ * @param {(resource: R, result: Result<T, Error>) => unknown} [release] - sync or async function releasing the resource
+ * @returns {AsyncResult<T, E | ReleaseError>} - the Result of use, or Err of a failed acquire or release
+ */
+const bracket = /*#__PURE__*/ <A, U>(
+	acquire: () => A,
+	use: (resource: ResultValue<Awaited<A>>) => U,
+	release?: Release<ResultValue<Awaited<A>>, ResultValue<Awaited<U>>>
+): AsyncResult<ResultValue<Awaited<U>>, ResultError<Awaited<A>> | ResultError<Awaited<U>> | ReleaseError> =>
+	new AsyncResult((async (): Promise<Result<any, any>> => {
+		let resource: any
+		try {
+			resource = await acquire()
+		} catch (error) {
+			return err(error)
+		}
+		if (isOk(resource)) resource = resource.get()
+		else if (isErr(resource)) return resource
+		if (isNil(resource) || resource == null) return nil()
+		if (isError(resource)) return err(resource)
+		const res = await task(async () => use(resource) as any)
+		try {
+			await (release ? release(resource, view(res)) : dispose(resource))
+		} catch (error) {
+			return err(new ReleaseError(error, res)) as Err<ReleaseError>
+		}
+		return res
+	})())
+
+/**
+ * Define a resource that is acquired and released each time it is used
+ * 
+ * @since 0.11.0
+ * @param {() => A} acquire - sync or async function returning the resource or a Result of it
+ * @param {(resource: R, result: Result<unknown, Error>) => unknown} [release] - sync or async function releasing the resource; defaults to Symbol.asyncDispose or Symbol.dispose
+ * @returns {Resource<A>} - resource with a use() method to run a function with it, like bracket()
+ */
+const resource = /*#__PURE__*/ <A>(
+	acquire: () => A,
+	release?: Release<ResultValue<Awaited<A>>>
+): Resource<A> => ({
+	use: fn => bracket(acquire, fn, release)
+})
+
+export { type Release, type Resource, ReleaseError, bracket, resource }
\ No newline at end of file
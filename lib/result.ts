@@ -1,77 +1,280 @@
-import { isAsyncFunction, isError, isFunction } from "./util"
-import { type Ok, isOk } from "./ok"
+import { isAbortSignal, isError, isFunction } from "./util"
+import { type Ok, isOk, own } from "./ok"
 import { type Nil, nil, isNil } from "./nil"
-import { type Err, err, isErr } from "./err"
-import { maybe } from "./maybe"
+import { Err, err, isErr } from "./err"
+import { type Maybe, maybe } from "./maybe"
+import { type Clock } from "./clock"
+import { deadline as startDeadline } from "./timeout"
+import { AsyncResult } from "./async"
+import { type FlowObserver, type Tracer, createTracer } from "./trace"
 
 /* === Types === */
 
-type Result<T> = Ok<T> | Nil | Err<Error>
-type MaybeResult<T> = Result<T> | T | Error | null | undefined
+type Result<T, E extends Error = Error> = Ok<T> | Nil | Err<E>
+type MaybeResult<T, E extends Error = Error> = Result<T, E> | T | E | null | undefined
+type ResultValue<R> = R extends Ok<infer T> ? T
+	: R extends Nil | Err<any> | Error | null | undefined ? never
+	: R
+type ResultError<R> = R extends Err<infer E> ? E
+	: R extends Error ? R
+	: never
+type Results = readonly Result<unknown, Error>[] | { readonly [key: string]: Result<unknown, Error> }
+type ZipValues<A extends readonly unknown[]> = { -readonly [K in keyof A]: ResultValue<A[K]> }
+type Zipped<T, E> = [E] extends [never] ? Maybe<T> : Result<T, E extends Error ? E : never>
+type Lifted<P extends readonly unknown[]> = { [K in keyof P]: MaybeResult<P[K], Error> }
+type FlowOptions = {
+	signal?: AbortSignal // abort the flow before the next step; passed to each step as second argument
+	deadline?: number // time limit in milliseconds for the whole flow, shared across all steps
+	clock?: Clock // clock to schedule the deadline and measure step durations with; defaults to global timers
+	name?: string // name of the flow for observers; defaults to 'flow'
+	observer?: FlowObserver // observer for this flow call in addition to the global observers
+}
+type Step<I = any, O = any> = (input: I, signal?: AbortSignal) => O
+type StepValue<O> = ResultValue<Awaited<O>>
+type StepError<O> = ResultError<Awaited<O>>
+type FlowValue<S> = S extends (...args: any[]) => infer O ? StepValue<O> : StepValue<S>
+type FlowError<S> = S extends (...args: any[]) => infer O ? StepError<O> : StepError<S>
+type OrError<E> = [E] extends [never] ? Error : E extends Error ? E : never
+type ManySteps = [Step, Step, Step, Step, Step, Step, Step, Step, Step, Step, ...Step[]]
+type AnySteps = [Step, Step, Step, Step, Step, Step, Step, Step, Step, Step, ...(Step | FlowOptions)[]]
+type Pipeline<In, O, T, E> = (input: In, signal?: AbortSignal) =>
+	[Extract<O, PromiseLike<any>>] extends [never] ? Result<T, OrError<E>> : Promise<Result<T, OrError<E>>>
+type Pipe = {
+	<In, A>(
+		f1: Step<In, A>
+	): Pipeline<In, A, StepValue<A>, StepError<A>>
+	<In, A, B>(
+		f1: Step<In, A>, f2: Step<StepValue<A>, B>
+	): Pipeline<In, A | B, StepValue<B>, StepError<A> | StepError<B>>
+	<In, A, B, C>(
+		f1: Step<In, A>, f2: Step<StepValue<A>, B>, f3: Step<StepValue<B>, C>
+	): Pipeline<In, A | B | C, StepValue<C>, StepError<A> | StepError<B> | StepError<C>>
+	<In, A, B, C, D>(
+		f1: Step<In, A>, f2: Step<StepValue<A>, B>, f3: Step<StepValue<B>, C>, f4: Step<StepValue<C>, D>
+	): Pipeline<In, A | B | C | D, StepValue<D>, StepError<A> | StepError<B> | StepError<C> | StepError<D>>
+	<In, A, B, C, D, E>(
+		f1: Step<In, A>, f2: Step<StepValue<A>, B>, f3: Step<StepValue<B>, C>, f4: Step<StepValue<C>, D>, f5: Step<StepValue<D>, E>
+	): Pipeline<In, A | B | C | D | E, StepValue<E>, StepError<A> | StepError<B> | StepError<C> | StepError<D> | StepError<E>>
+	<In, A, B, C, D, E, F>(
+		f1: Step<In, A>, f2: Step<StepValue<A>, B>, f3: Step<StepValue<B>, C>, f4: Step<StepValue<C>, D>, f5: Step<StepValue<D>, E>, f6: Step<StepValue<E>, F>
+	): Pipeline<In, A | B | C | D | E | F, StepValue<F>, StepError<A> | StepError<B> | StepError<C> | StepError<D> | StepError<E> | StepError<F>>
+	<In, A, B, C, D, E, F, G>(
+		f1: Step<In, A>, f2: Step<StepValue<A>, B>, f3: Step<StepValue<B>, C>, f4: Step<StepValue<C>, D>, f5: Step<StepValue<D>, E>, f6: Step<StepValue<E>, F>, f7: Step<StepValue<F>, G>
+	): Pipeline<In, A | B | C | D | E | F | G, StepValue<G>, StepError<A> | StepError<B> | StepError<C> | StepError<D> | StepError<E> | StepError<F> | StepError<G>>
+	<In, A, B, C, D, E, F, G, H>(
+		f1: Step<In, A>, f2: Step<StepValue<A>, B>, f3: Step<StepValue<B>, C>, f4: Step<StepValue<C>, D>, f5: Step<StepValue<D>, E>, f6: Step<StepValue<E>, F>, f7: Step<StepValue<F>, G>, f8: Step<StepValue<G>, H>
+	): Pipeline<In, A | B | C | D | E | F | G | H, StepValue<H>, StepError<A> | StepError<B> | StepError<C> | StepError<D> | StepError<E> | StepError<F> | StepError<G> | StepError<H>>
+	<In, A, B, C, D, E, F, G, H, I>(
+		f1: Step<In, A>, f2: Step<StepValue<A>, B>, f3: Step<StepValue<B>, C>, f4: Step<StepValue<C>, D>, f5: Step<StepValue<D>, E>, f6: Step<StepValue<E>, F>, f7: Step<StepValue<F>, G>, f8: Step<StepValue<G>, H>, f9: Step<StepValue<H>, I>
+	): Pipeline<In, A | B | C | D | E | F | G | H | I, StepValue<I>, StepError<A> | StepError<B> | StepError<C> | StepError<D> | StepError<E> | StepError<F> | StepError<G> | StepError<H> | StepError<I>>
+	(...fns: ManySteps): (input: unknown, signal?: AbortSignal) => Result<unknown> | Promise<Result<unknown>>
+}
+type Flow = {
+	<S>(seed: S, options?: FlowOptions): Promise<Result<FlowValue<S>, OrError<FlowError<S>>>>
+	<S, A>(
+		seed: S, f1: Step<FlowValue<S>, A>, options?: FlowOptions
+	): Promise<Result<StepValue<A>, OrError<FlowError<S> | StepError<A>>>>
+	<S, A, B>(
+		seed: S, f1: Step<FlowValue<S>, A>, f2: Step<StepValue<A>, B>, options?: FlowOptions
+	): Promise<Result<StepValue<B>, OrError<FlowError<S> | StepError<A> | StepError<B>>>>
+	<S, A, B, C>(
+		seed: S, f1: Step<FlowValue<S>, A>, f2: Step<StepValue<A>, B>, f3: Step<StepValue<B>, C>, options?: FlowOptions
+	): Promise<Result<StepValue<C>, OrError<FlowError<S> | StepError<A> | StepError<B> | StepError<C>>>>
+	<S, A, B, C, D>(
+		seed: S, f1: Step<FlowValue<S>, A>, f2: Step<StepValue<A>, B>, f3: Step<StepValue<B>, C>, f4: Step<StepValue<C>, D>, options?: FlowOptions
+	): Promise<Result<StepValue<D>, OrError<FlowError<S> | StepError<A> | StepError<B> | StepError<C> | StepError<D>>>>
+	<S, A, B, C, D, E>(
+		seed: S, f1: Step<FlowValue<S>, A>, f2: Step<StepValue<A>, B>, f3: Step<StepValue<B>, C>, f4: Step<StepValue<C>, D>, f5: Step<StepValue<D>, E>, options?: FlowOptions
+	): Promise<Result<StepValue<E>, OrError<FlowError<S> | StepError<A> | StepError<B> | StepError<C> | StepError<D> | StepError<E>>>>
+	<S, A, B, C, D, E, F>(
+		seed: S, f1: Step<FlowValue<S>, A>, f2: Step<StepValue<A>, B>, f3: Step<StepValue<B>, C>, f4: Step<StepValue<C>, D>, f5: Step<StepValue<D>, E>, f6: Step<StepValue<E>, F>, options?: FlowOptions
+	): Promise<Result<StepValue<F>, OrError<FlowError<S> | StepError<A> | StepError<B> | StepError<C> | StepError<D> | StepError<E> | StepError<F>>>>
+	<S, A, B, C, D, E, F, G>(
+		seed: S, f1: Step<FlowValue<S>, A>, f2: Step<StepValue<A>, B>, f3: Step<StepValue<B>, C>, f4: Step<StepValue<C>, D>, f5: Step<StepValue<D>, E>, f6: Step<StepValue<E>, F>, f7: Step<StepValue<F>, G>, options?: FlowOptions
+	): Promise<Result<StepValue<G>, OrError<FlowError<S> | StepError<A> | StepError<B> | StepError<C> | StepError<D> | StepError<E> | StepError<F> | StepError<G>>>>
+	<S, A, B, C, D, E, F, G, H>(
+		seed: S, f1: Step<FlowValue<S>, A>, f2: Step<StepValue<A>, B>, f3: Step<StepValue<B>, C>, f4: Step<StepValue<C>, D>, f5: Step<StepValue<D>, E>, f6: Step<StepValue<E>, F>, f7: Step<StepValue<F>, G>, f8: Step<StepValue<G>, H>, options?: FlowOptions
+	): Promise<Result<StepValue<H>, OrError<FlowError<S> | StepError<A> | StepError<B> | StepError<C> | StepError<D> | StepError<E> | StepError<F> | StepError<G> | StepError<H>>>>
+	<S, A, B, C, D, E, F, G, H, I>(
+		seed: S, f1: Step<FlowValue<S>, A>, f2: Step<StepValue<A>, B>, f3: Step<StepValue<B>, C>, f4: Step<StepValue<C>, D>, f5: Step<StepValue<D>, E>, f6: Step<StepValue<E>, F>, f7: Step<StepValue<F>, G>, f8: Step<StepValue<G>, H>, f9: Step<StepValue<H>, I>, options?: FlowOptions
+	): Promise<Result<StepValue<I>, OrError<FlowError<S> | StepError<A> | StepError<B> | StepError<C> | StepError<D> | StepError<E> | StepError<F> | StepError<G> | StepError<H> | StepError<I>>>>
+	(seed: unknown, ...fns: AnySteps): Promise<Result<unknown>>
+}
+
+/* === Internal Functions === */
+
+/**
+ * Reject a promise as soon as the signal is aborted
+ * 
+ * @since 0.11.0
+ * @param {Promise<T>} promise - the promise to race against the signal
+ * @param {AbortSignal} signal - the signal to abort with
+ * @returns {Promise<T>} - promise that settles like the passed promise or rejects with the abort reason
+ */
+const abortable = /*#__PURE__*/ <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> =>
+	new Promise((resolve, reject) => {
+		const abort = () => reject(signal.reason)
+		if (signal.aborted) return abort()
+		signal.addEventListener('abort', abort, { once: true })
+		promise.then(resolve, reject)
+			.finally(() => signal.removeEventListener('abort', abort))
+	})
+
+/**
+ * Check if the last argument of flow() is an options object rather than a step
+ * 
+ * @since 0.11.0
+ * @param {unknown} value - the value to check
+ * @returns {boolean} - true if the value is a plain object that is not a Result
+ */
+const isFlowOptions = /*#__PURE__*/ (value: unknown): value is FlowOptions => {
+	if (value === null || typeof value !== 'object' || isResult(value)) return false
+	const proto = Object.getPrototypeOf(value)
+	return proto === Object.prototype || proto === null
+}
 
 /* === Namespace Result === */
 
+/**
+ * Run steps in sequence, switching to async mode as soon as a step returns a Promise
+ * 
+ * Stops at the first Err, and at the first Nil returned by a step, so no step is called with undefined for it.
+ * Plain values returned by a step keep the ownership mode of its input.
+ * 
+ * @since 0.11.0
+ * @param {Result<any>} res - Result to pass to the first step
+ * @param {Step[]} fns - functions to execute in sequence
+ * @param {AbortSignal} [signal] - optional signal to abort with; passed to each step as second argument
+ * @param {Tracer} [tracer] - optional tracer to notify observers of each step
+ * @param {number} [start=0] - index of the first step to run
+ * @returns {Result<any> | Promise<Result<any>>} - the Result of the last step, or a Promise for it if any step was async
+ */
+const run = (
+	res: Result<any>,
+	fns: Step[],
+	signal?: AbortSignal,
+	tracer?: Tracer,
+	start = 0
+): Result<any> | PromiseLike<Result<any>> => {
+	for (let i = start; i < fns.length; i++) {
+		const fn = fns[i]
+		if (isErr(res) || (i > 0 && isNil(res))) break
+		if (signal?.aborted) return err(signal.reason)
+		if (!isFunction(fn)) return err(new TypeError('Expected a function in flow'))
+		tracer?.stepStart(i, fn)
+		const mode = isOk(res) ? res.mode : undefined
+		try {
+			const out = signal ? fn(res.get(), signal) : fn(res.get())
+			if (isFunction(out?.then)) {
+				const pending = Promise.resolve(out).then(value => own(value, mode))
+				return task(() => signal ? abortable(pending, signal) : pending)
+					.then(next => {
+						tracer?.stepEnd(i, fn, next)
+						return run(next, fns, signal, tracer, i + 1)
+					})
+			}
+			res = wrap(own(out, mode))
+		} catch (error) {
+			res = err(error)
+		}
+		tracer?.stepEnd(i, fn, res)
+	}
+	return res
+}
+
 /**
  * Get a Result from a function that may throw an error
  * 
  * @since 0.9.6
  * @param {() => MaybeResult<T>} fn - a function that may throw an error
- * @returns {Result<T>} - an Ok<T>, Nil or Err<Error> containing the result of the function
+ * @returns {Result<T, E>} - an Ok<T>, Nil or Err<E> containing the result of the function
  */
-const result = /*#__PURE__*/ <T>(
-	fn: (...args: any[]) => MaybeResult<T>,
+const result = /*#__PURE__*/ <T, E extends Error = Error>(
+	fn: (...args: any[]) => MaybeResult<T, E>,
 	...args: any[]
-): Result<T> => {
+): Result<T, E> => {
 	try {
 		return wrap(fn(...args))
 	} catch (error) {
-		return err(error)
+		return err(error) as Err<E>
 	}
 }
 
 /**
  * Get an async Result from a function that may throw an error
  * 
+ * If an AbortSignal is among the arguments, it is passed on to the function and the task resolves to an Err
+ * with the abort reason as soon as the signal is aborted. If no error type can be inferred from the function,
+ * for example because it only throws, the error type is Error
+ * 
  * @since 0.9.6
  * @param {() => Promise<MaybeResult<T>>} fn - async function to try and maybe retry
- * @returns {Promise<Result<T>>} - promise that resolves to the result of the function or fails with the last error encountered
+ * @param {any[]} args - arguments for the function, optionally including an AbortSignal
+ * @returns {AsyncResult<T, OrError<E>>} - async result of the function or Err with the error encountered
  */
-const task = /*#__PURE__*/ async <T>(
-	fn: (...args: any[]) => Promise<MaybeResult<T>>,
+const task = /*#__PURE__*/ <T, E extends Error = Error>(
+	fn: (...args: any[]) => PromiseLike<MaybeResult<T, E>>,
 	...args: any[]
-): Promise<Result<T>> => {
+): AsyncResult<T, OrError<E>> => new AsyncResult((async (): Promise<Result<T, OrError<E>>> => {
+	const signal = args.find(isAbortSignal)
 	try {
-		return wrap(await fn(...args))
+		if (signal) signal.throwIfAborted()
+		const promise = Promise.resolve(fn(...args))
+		return wrap(await (signal ? abortable(promise, signal) : promise)) as Result<T, OrError<E>>
 	} catch (error) {
-		return err(error)
+		return err(error) as Err<OrError<E>>
 	}
-}
+})())
 
 /**
  * Execute a series of functions in sequence
  * 
+ * The first argument is a seed value, a Promise for it or a function providing it. Each following function receives
+ * the value of the previous step, with Promises and Results unwrapped, and the types of up to 9 steps are inferred step by step.
+ * The first Err stops the flow; so does a Nil seed or a step returning Nil, null or undefined.
+ * 
+ * If the last argument is a FlowOptions object with an AbortSignal, the flow stops before the next step
+ * and resolves to an Err with the abort reason as soon as the signal is aborted. With a deadline, the flow
+ * resolves to an Err<TimeoutError> once the time limit for all steps together has run out. Observers given
+ * in the options or registered with observe() are notified of the start and end of the flow and each step
+ * 
  * @since 0.9.0
- * @param {[T | (() => AsyncResult<T>), ...((input: T) => AsyncResult<T>)[]]} fns - array of functions to execute in sequence
- * @returns {Promise<Result<R>>} - promise that resolves to the result of the last function or fails with the first error encountered
- */
-const flow = /*#__PURE__*/ async <T, R>(
-	...fns: [
-		T | (() => MaybeResult<T> | Promise<MaybeResult<T>>),
-		...((input: T) => MaybeResult<T> | Promise<MaybeResult<T>>)[]
-	]
-): Promise<Result<R>> => {
-    let res: any = isFunction(fns[0]) ? nil() : wrap(fns.shift())
-    for (const fn of fns) {
-		if (isErr(res)) break
-		if (!isFunction(fn))
-			return err(new TypeError('Expected a function in flow'))
-		res = isAsyncFunction(fn)
-			? await task(async () => fn(res.get()))
-			: result(fn, res.get())
-    }
-    return res
+ * @param {[S | (() => S), ...Step[], FlowOptions?]} fns - array of functions to execute in sequence, optionally followed by flow options
+ * @returns {Promise<Result<R, E>>} - promise that resolves to the result of the last function or fails with the first error encountered
+ */
+const flow: Flow = /*#__PURE__*/ async (...fns: any[]): Promise<Result<any>> => {
+	const options: FlowOptions = fns.length > 1 && isFlowOptions(fns.at(-1)) ? fns.pop() : {}
+	const [signal, clear] = options.deadline != null
+		? startDeadline(options.deadline, options.clock, options.signal)
+		: [options.signal, () => {}]
+	try {
+		const seeded = !isFunction(fns[0])
+		const first = seeded ? fns.shift() : undefined
+		const tracer = createTracer(options.observer, options.name, fns.length, options.clock)
+		const seed = isFunction(first?.then) ? await task(() => first, signal) : wrap(first)
+		const res = seeded && isNil(seed) ? seed : await run(seed, fns, signal, tracer)
+		tracer?.flowEnd(res)
+		return res
+	} finally {
+		clear()
+	}
 }
 
+/**
+ * Define a reusable pipeline of functions to execute in sequence
+ * 
+ * The pipeline is called with an input and an optional AbortSignal, which is passed to each step as second argument.
+ * It returns a Result directly if all steps are synchronous, or a Promise for it as soon as a step returns a Promise.
+ * A pipeline can be used as a step in another pipeline or in flow().
+ * 
+ * @since 0.11.0
+ * @param {Step[]} fns - functions to execute in sequence
+ * @returns {(input: I, signal?: AbortSignal) => Result<R, E> | Promise<Result<R, E>>} - the pipeline function
+ */
+const pipe: Pipe = /*#__PURE__*/ (...fns: any[]) =>
+	(input: unknown, signal?: AbortSignal): any =>
+		run(wrap(input), fns, signal)
+
 /**
  * Check if a value is a Result type
  * 
@@ -79,36 +282,170 @@ const flow = /*#__PURE__*/ async <T, R>(
  * @param {any} value - the value to check
  * @returns {boolean} - true if the value is a Result type, false otherwise
  */
-const isResult = /*#__PURE__*/ (value: any): value is Result<any> =>
+const isResult = /*#__PURE__*/ (value: any): value is Result<any, any> =>
 	isOk(value) || isNil(value) || isErr(value)
 
 /**
  * Wrap a value in a Result container if it is not already a Result type
  * 
  * @since 0.9.6
- * @param {MaybeResult<T>} value - a Result or value
- * @returns {Result<T>} - an Ok<T>, Nil or Err<Error> containing the value
+ * @param {MaybeResult<T, E>} value - a Result or value
+ * @returns {Result<T, E>} - an Ok<T>, Nil or Err<E> containing the value
  */
-const wrap = /*#__PURE__*/ <T>(value: MaybeResult<T>): Result<T> =>
-	isErr(value) ? value
-		: isError(value) ? err(value)
-		: maybe(value)
+const wrap = /*#__PURE__*/ <T, E extends Error = Error>(value: MaybeResult<T, E>): Result<T, E> =>
+	isErr(value) ? value as Err<E>
+		: isError(value) ? new Err(value as E)
+		: maybe(value as T | Ok<T> | Nil)
 
 /**
  * Unwrap a Result container, returning the value if it is Ok, or the error if it is Err
  * 
  * @since 0.9.6
- * @param {MaybeResult<T>} value - a value or Result
- * @returns {T | Error | void} - the value or error from the Result
+ * @param {MaybeResult<T, E>} value - a value or Result
+ * @returns {T | E | void} - the value or error from the Result
  */
-const unwrap = /*#__PURE__*/ <T>(
-	value: Result<T> | T | void
-): T | Error | void =>
+const unwrap = /*#__PURE__*/ <T, E extends Error = Error>(
+	value: Result<T, E> | T | void
+): T | E | void =>
 	isErr(value) ? value.error
 		: isOk(value) || isNil(value) ? value.get()
 		: value
 
+/**
+ * Collect an array or record of Results into a Result of all values
+ * 
+ * Returns the first Err encountered; otherwise any Nil member makes the whole Result Nil
+ * 
+ * @since 0.11.0
+ * @param {R} results - array, tuple or record of Results
+ * @returns {Result<{ [K in keyof R]: ResultValue<R[K]> }, ResultError<R[keyof R]>>} - Ok with all values in the same shape, Nil or the first Err
+ */
+const all = /*#__PURE__*/ <R extends Results>(
+	results: R
+): Result<{ -readonly [K in keyof R]: ResultValue<R[K]> }, ResultError<R[keyof R]>> => {
+	type Values = { -readonly [K in keyof R]: ResultValue<R[K]> }
+	const members = Object.values(results) as Result<unknown, Error>[]
+	let hasNil = false
+	for (const res of members) {
+		if (isErr(res)) return res as Err<ResultError<R[keyof R]>>
+		if (isNil(res)) hasNil = true
+	}
+	if (hasNil) return nil()
+	return result<Values, ResultError<R[keyof R]>>(() => (Array.isArray(results)
+		? results.map(res => res.get())
+		: Object.fromEntries(Object.entries(results).map(([key, res]) => [key, res.get()]))
+	) as Values)
+}
+
+/**
+ * Get the first Ok value of an array of Results
+ * 
+ * Nil members are skipped; if there is no Ok value, all errors are collected in an AggregateError
+ * 
+ * @since 0.11.0
+ * @param {Result<T, E>[]} results - array of Results
+ * @returns {Result<T, AggregateError>} - the first Ok, Err<AggregateError> if there were errors, or Nil
+ */
+const any = /*#__PURE__*/ <T, E extends Error = Error>(
+	results: readonly Result<T, E>[]
+): Result<T, AggregateError> => {
+	const errors: E[] = []
+	for (const res of results) {
+		if (isOk(res)) return res
+		if (isErr(res)) errors.push(res.error)
+	}
+	return errors.length
+		? err(new AggregateError(errors, 'No result succeeded'))
+		: nil()
+}
+
+/**
+ * Collect the Ok values of an array of Results into a Result of an array
+ * 
+ * Returns the first Err encountered; Nil members are skipped
+ * 
+ * @since 0.11.0
+ * @param {Result<T, E>[]} results - array of Results
+ * @returns {Result<T[], E>} - Ok with all present values or the first Err
+ */
+const collect = /*#__PURE__*/ <T, E extends Error = Error>(
+	results: readonly Result<T, E>[]
+): Result<T[], E> => {
+	for (const res of results)
+		if (isErr(res)) return res
+	return result<T[], E>(() => results.filter(isOk).map(res => res.get() as T))
+}
+
+/**
+ * Split an array of Results into Ok values, the number of Nil members and errors
+ * 
+ * @since 0.11.0
+ * @param {Result<T, E>[]} results - array of Results
+ * @returns {{ oks: T[], nils: number, errs: E[] }} - Ok values and errors in original order, and the count of Nil members
+ */
+const partition = /*#__PURE__*/ <T, E extends Error = Error>(
+	results: readonly Result<T, E>[]
+): { oks: T[], nils: number, errs: E[] } => {
+	const oks: T[] = []
+	const errs: E[] = []
+	let nils = 0
+	for (const res of results) {
+		if (isOk(res)) oks.push(res.get())
+		else if (isErr(res)) errs.push(res.error)
+		else nils++
+	}
+	return { oks, nils, errs }
+}
+
+/**
+ * Combine independent values or Results into a Result of a tuple of their values
+ * 
+ * Arguments are wrapped like in wrap(), so nullish values are Nil. Like in all(), the first Err is returned;
+ * otherwise any Nil argument makes the whole Result Nil. If no argument can be an Err, the result is a Maybe.
+ * 
+ * @since 0.11.0
+ * @param {A} values - values, Maybes or Results to combine
+ * @returns {Zipped<ZipValues<A>, ResultError<A[number]>>} - Ok with a tuple of all values, Nil or the first Err
+ */
+const zip = /*#__PURE__*/ <A extends readonly unknown[]>(
+	...values: A
+): Zipped<ZipValues<A>, ResultError<A[number]>> =>
+	all(values.map(value => wrap(value))) as Zipped<ZipValues<A>, ResultError<A[number]>>
+
+/**
+ * Combine independent values or Results with a function of their values
+ * 
+ * The function is only called if all arguments are Ok, with the same Nil and Err precedence as in zip().
+ * As the function may throw, the result is a Result even for Maybe arguments; its error type is Error
+ * if no other error type can be inferred.
+ * 
+ * @since 0.11.0
+ * @param {(...args: ZipValues<A>) => R} fn - function to apply to the values
+ * @param {A} values - values, Maybes or Results to combine
+ * @returns {Result<ResultValue<R>, OrError<ResultError<A[number]> | ResultError<R>>>} - the wrapped return value of the function, Nil or the first Err
+ */
+const zipWith = /*#__PURE__*/ <A extends readonly unknown[], R>(
+	fn: (...args: ZipValues<A>) => R,
+	...values: A
+): Result<ResultValue<R>, OrError<ResultError<A[number]> | ResultError<R>>> => {
+	const res = zip(...values)
+	return (isOk(res) ? result(() => fn(...res.get())) : res) as Result<ResultValue<R>, OrError<ResultError<A[number]> | ResultError<R>>>
+}
+
+/**
+ * Turn a function of plain values into a function of values, Maybes or Results
+ * 
+ * @since 0.11.0
+ * @param {(...args: P) => R} fn - function to lift
+ * @returns {(...args: A) => Result<ResultValue<R>, OrError<ResultError<A[number]> | ResultError<R>>>} - function that applies fn with zipWith()
+ */
+const lift = /*#__PURE__*/ <P extends unknown[], R>(fn: (...args: P) => R) =>
+	<A extends Lifted<P>>(...args: A): Result<ResultValue<R>, OrError<ResultError<A[number]> | ResultError<R>>> =>
+		zipWith(fn as (...args: any[]) => R, ...args) as Result<ResultValue<R>, OrError<ResultError<A[number]> | ResultError<R>>>
+
 export {
-	type Result, type MaybeResult,
-	result, task, flow, isResult, wrap, unwrap,
+	type Result, type MaybeResult, type ResultValue, type ResultError, type FlowOptions, type Step, type Pipeline, type OrError,
+	type ZipValues, type Zipped, type Lifted,
+	result, task, flow, pipe, isResult, wrap, unwrap,
+	all, any, collect, partition, zip, zipWith, lift, abortable,
 }
\ No newline at end of file
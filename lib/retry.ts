@@ -0,0 +1,96 @@
+import { type Clock, systemClock, sleep } from "./clock"
+import { type Err, err, isErr } from "./err"
+import { type MaybeResult, type OrError, type Result, task } from "./result"
+import { AsyncResult } from "./async"
+
+/* === Types === */
+
+type RetryPolicy<E extends Error = Error> = {
+	attempts?: number // maximum number of attempts, including the first one; defaults to 3
+	delay?: number // delay in milliseconds before the first retry; defaults to 100
+	factor?: number // multiplier for the delay after each retry; defaults to 2
+	maxDelay?: number // upper limit for the delay in milliseconds; defaults to no limit
+	jitter?: number // fraction of the delay to randomize, between 0 and 1; defaults to 0.5
+	random?: () => number // source of randomness for jitter; defaults to Math.random
+	retryIf?: (error: E, attempt: number) => boolean // whether an error is retryable; defaults to all errors
+	onRetry?: (error: E, attempt: number, delay: number) => void // called before waiting for the next attempt
+	clock?: Clock // clock to schedule delays with; defaults to global timers
+}
+type WithHistory<E extends Error> = E & {
+	readonly history: E[] // errors of all attempts in order, the last one included
+}
+
+/* === Internal Functions === */
+
+/**
+ * Attach the errors of all attempts to the error of the last attempt
+ * 
+ * The history is a non-enumerable property, so it does not show up in serialized errors.
+ * Frozen or sealed errors are returned without history.
+ * 
+ * @since 0.11.0
+ * @param {E} error - error of the last attempt
+ * @param {E[]} history - errors of all attempts in order
+ * @returns {WithHistory<E>} - the same error with the history attached
+ */
+const withHistory = <E extends Error>(error: E, history: E[]): WithHistory<E> => {
+	if (Object.isExtensible(error))
+		Object.defineProperty(error, 'history', { value: history, writable: true, configurable: true })
+	return error as WithHistory<E>
+}
+
+/* === Retry === */
+
+/**
+ * Calculate the delay before the next attempt with exponential backoff and jitter
+ * 
+ * @param {RetryPolicy} policy - retry policy
+ * @param {number} attempt - number of the failed attempt, starting at 1
+ * @returns {number} - delay in milliseconds
+ */
+const backoff = (
+	{ delay = 100, factor = 2, maxDelay = Infinity, jitter = 0.5, random = Math.random }: RetryPolicy<any>,
+	attempt: number
+): number => {
+	const ms = Math.min(delay * factor ** (attempt - 1), maxDelay)
+	return Math.round(ms * (1 - jitter * random()))
+}
+
+/**
+ * Retry an async function until it succeeds or the retry policy gives up
+ * 
+ * Only Err results are retried; Ok and Nil are returned as they are. If the policy gives up, the Err of the last
+ * attempt is returned with the errors of all attempts attached to its error as history. If retryIf() or onRetry()
+ * throws, retrying stops and the thrown error is returned as Err with the history of the attempts so far.
+ * 
+ * @since 0.11.0
+ * @param {(attempt: number) => Promise<MaybeResult<T, E>>} fn - async function to try, called with the number of the attempt starting at 1
+ * @param {RetryPolicy<OrError<E>>} policy - attempt limit, backoff, retry predicate, hook and clock
+ * @returns {AsyncResult<T, WithHistory<OrError<E>>>} - async result of the first Ok or Nil, or the last Err with the history of all attempts
+ */
+const retry = /*#__PURE__*/ <T, E extends Error = Error>(
+	fn: (attempt: number) => Promise<MaybeResult<T, E>>,
+	policy: RetryPolicy<OrError<E>> = {}
+): AsyncResult<T, WithHistory<OrError<E>>> => new AsyncResult((async (): Promise<Result<T, WithHistory<OrError<E>>>> => {
+	const { attempts = 3, retryIf, onRetry, clock = systemClock } = policy
+	const errors: OrError<E>[] = []
+	const giveUp = (res: Err<OrError<E>>) => {
+		withHistory(res.error, errors)
+		return res as Err<WithHistory<OrError<E>>>
+	}
+	for (let attempt = 1; ; attempt++) {
+		const res = await task(fn, attempt)
+		if (!isErr(res)) return res
+		errors.push(res.error)
+		try {
+			if (attempt >= attempts || (retryIf && !retryIf(res.error, attempt))) return giveUp(res)
+			const ms = backoff(policy, attempt)
+			if (onRetry) onRetry(res.error, attempt, ms)
+			await sleep(ms, clock)
+		} catch (error) {
+			return giveUp(err(error) as Err<OrError<E>>)
+		}
+	}
+})())
+
+export { type RetryPolicy, type WithHistory, retry }
\ No newline at end of file
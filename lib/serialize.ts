@@ -0,0 +1,137 @@
+import { isDefined, isError } from "./util"
+import { maybe } from "./maybe"
+import { nil } from "./nil"
+import { err, isErr } from "./err"
+import { type Result, wrap } from "./result"
+import { type ErrorObject, ContextError, errorToObject } from "./cause"
+import { TimeoutError } from "./timeout"
+
+/* === Types === */
+
+type SerializedOk<T> = { type: 'ok', value: T }
+type SerializedNil = { type: 'nil' }
+type SerializedErr = { type: 'err', error: ErrorObject }
+type SerializedResult<T = unknown> = SerializedOk<T> | SerializedNil | SerializedErr
+
+type ErrorClass = (abstract new (...args: any[]) => Error) & { tag?: string }
+
+type SerializeOptions = {
+	stack?: boolean // include stack traces of errors; defaults to false to not leak them to clients
+}
+
+/* === Error Registry === */
+
+const registry = new Map<string, ErrorClass>()
+
+/**
+ * Register error classes to rebuild deserialized errors with
+ * 
+ * Errors are looked up by their name. Classes created with defineError() are registered by their tag.
+ * Built-in error classes and the error classes of this library are registered by default.
+ * 
+ * @since 0.11.0
+ * @param {ErrorClass[]} types - error classes to register
+ */
+const registerError = /*#__PURE__*/ (...types: ErrorClass[]): void => {
+	for (const type of types) registry.set(type.tag ?? type.name, type)
+}
+
+registerError(
+	Error, EvalError, RangeError, ReferenceError, SyntaxError, TypeError, URIError, AggregateError,
+	ContextError, TimeoutError,
+)
+
+/* === Internal Functions === */
+
+const isErrorObject = (value: unknown): value is ErrorObject =>
+	isDefined(value) && typeof value === 'object'
+		&& typeof (value as ErrorObject).name === 'string'
+		&& typeof (value as ErrorObject).message === 'string'
+
+const define = (target: object, key: string, value: unknown) =>
+	Object.defineProperty(target, key, { value, writable: true, configurable: true })
+
+const errorFromObject = (value: unknown): unknown => {
+	if (!isErrorObject(value)) return value
+	const { name, message, stack, cause, errors, ...fields } = value
+	const error: Error = Reflect.construct(Error, [message], registry.get(name) ?? Error)
+	if (error.name !== name) define(error, 'name', name)
+	if (stack !== undefined) define(error, 'stack', stack)
+	if (cause !== undefined) define(error, 'cause', errorFromObject(cause))
+	if (Array.isArray(errors)) define(error, 'errors', errors.map(errorFromObject))
+	return Object.assign(error, fields)
+}
+
+/* === Serialization === */
+
+/**
+ * Convert a Result into a tagged plain object
+ * 
+ * Same as the toJSON() method of Ok, Nil and Err, which JSON.stringify() calls, but with options.
+ * 
+ * @since 0.11.0
+ * @param {Result<T, Error>} res - the Result to convert
+ * @param {SerializeOptions} options - whether to include stack traces
+ * @returns {SerializedResult<T>} - plain object like { type: 'ok', value }, { type: 'nil' } or { type: 'err', error }
+ */
+const toJSON = /*#__PURE__*/ <T>(
+	res: Result<T, Error>,
+	{ stack = false }: SerializeOptions = {}
+): SerializedResult<T> =>
+	isErr(res) && stack
+		? { type: 'err', error: errorToObject(res.error, stack) as ErrorObject }
+		: res.toJSON()
+
+/**
+ * Rebuild a Result from a tagged plain object
+ * 
+ * Errors are rebuilt as instances of the error class registered for their name, or as plain Error otherwise.
+ * 
+ * @since 0.11.0
+ * @param {unknown} data - plain object created by toJSON() or parsed from its JSON
+ * @returns {Result<T, Error>} - the rebuilt Result, or Err<TypeError> if data is not a serialized Result
+ */
+const fromJSON = /*#__PURE__*/ <T = unknown>(data: unknown): Result<T, Error> => {
+	const obj = isDefined(data) && typeof data === 'object' ? data as SerializedResult<T> : undefined
+	switch (obj?.type) {
+		case 'ok': return maybe(obj.value)
+		case 'nil': return nil()
+		case 'err': {
+			const error = errorFromObject(obj.error)
+			if (isError(error)) return err(error)
+		}
+	}
+	return err(new TypeError('Invalid serialized Result'))
+}
+
+/**
+ * Serialize a Result or value to a JSON string
+ * 
+ * @since 0.11.0
+ * @param {MaybeResult<T, Error>} value - the Result or value to serialize
+ * @param {SerializeOptions} options - whether to include stack traces
+ * @returns {string} - JSON string of the tagged plain object
+ */
+const serialize = /*#__PURE__*/ <T>(value: Result<T, Error> | T, options?: SerializeOptions): string =>
+	JSON.stringify(toJSON(wrap(value) as Result<T, Error>, options))
+
+/**
+ * Deserialize a Result from a JSON string
+ * 
+ * @since 0.11.0
+ * @param {string} json - JSON string created by serialize()
+ * @returns {Result<T, Error>} - the rebuilt Result, or Err if the JSON is invalid
+ */
+const deserialize = /*#__PURE__*/ <T = unknown>(json: string): Result<T, Error> => {
+	try {
+		return fromJSON<T>(JSON.parse(json))
+	} catch (error) {
+		return err(error)
+	}
+}
+
+export {
+	type SerializedOk, type SerializedNil, type SerializedErr, type SerializedResult,
+	type ErrorClass, type SerializeOptions,
+	registerError, toJSON, fromJSON, serialize, deserialize,
+}
\ No newline at end of file
@@ -0,0 +1,215 @@
+import { isFunction } from "./util"
+import { ok, isOk } from "./ok"
+import { type Err, err, isErr } from "./err"
+import { type OrError, type Result, type ResultValue, type ResultError, task } from "./result"
+import { AsyncResult, asyncResult } from "./async"
+
+/* === Types === */
+
+type DeadLetter<E extends Error = Error> = (error: E, index: number) => unknown
+type ErrPolicy<E extends Error = Error> = 'stop' | 'skip' | DeadLetter<E>
+
+type StreamOptions<E extends Error = Error> = {
+	onErr?: ErrPolicy<E> // stop at the first Err, skip errors or pass them to a dead-letter callback
+}
+
+type Items<I> = Iterable<I> | AsyncIterable<I>
+type ItemValue<I> = ResultValue<Awaited<I>>
+type ItemError<I> = OrError<ResultError<Awaited<I>>>
+
+/* === Internal Functions === */
+
+type Step<O> = { emit: boolean, value?: O, stop?: boolean }
+type Stepper<I, O> = (item: I, index: number) => Promise<Step<O>>
+
+const SKIP: Step<never> = { emit: false }
+
+// apply the policy to an Err: stop, skip or pass it to the dead-letter callback
+const handleErr = async <O>(
+	policy: ErrPolicy<any> | undefined,
+	res: Err<Error>,
+	index: number,
+	step: Step<O> = SKIP
+): Promise<Step<O>> => {
+	if (policy === 'stop') return { ...step, stop: true }
+	if (isFunction(policy)) await policy(res.error, index)
+	return policy ? SKIP : step
+}
+
+async function* drive<I, O>(items: Items<I>, stepper: Stepper<I, O>): AsyncGenerator<O, void, undefined> {
+	let index = 0
+	for await (const item of items) {
+		const step = await stepper(item, index++)
+		if (step.emit) yield step.value as O
+		if (step.stop) return
+	}
+}
+
+const transform = <I, O>(stepper: Stepper<I, O>): TransformStream<I, O> => {
+	let index = 0
+	let stopped = false
+	return new TransformStream<I, O>({
+		async transform(chunk, controller) {
+			if (stopped) return
+			const step = await stepper(chunk, index++)
+			if (step.emit) controller.enqueue(step.value as O)
+			if (step.stop) {
+				stopped = true
+				controller.terminate()
+			}
+		},
+	})
+}
+
+const mapStepper = <I, U>(
+	fn: (item: I, index: number) => U,
+	policy?: ErrPolicy<any>
+): Stepper<I, Result<ItemValue<U>, ItemError<U>>> =>
+	async (item, index) => {
+		const res = await task(async () => fn(item, index) as any)
+		const step = { emit: true, value: res }
+		return isErr(res) ? handleErr(policy, res, index, step) : step
+	}
+
+const okStepper = <I>(policy: ErrPolicy<any> = 'skip'): Stepper<I, ItemValue<I>> =>
+	async (item, index) => {
+		const res = await asyncResult(item)
+		return isOk(res) ? { emit: true, value: res.get() as ItemValue<I> }
+			: isErr(res) ? handleErr(policy, res, index)
+			: SKIP
+	}
+
+const untilErrStepper = <I>(deadLetter?: DeadLetter<any>): Stepper<I, ItemValue<I>> =>
+	async (item, index) => {
+		const res = await asyncResult(item)
+		if (isOk(res)) return { emit: true, value: res.get() as ItemValue<I> }
+		if (!isErr(res)) return SKIP
+		if (deadLetter) await deadLetter(res.error, index)
+		return { emit: false, stop: true }
+	}
+
+/* === Async Iterables === */
+
+/**
+ * Map each item of an iterable or async iterable through a sync or async function and yield its Result
+ * 
+ * By default, all Results are yielded, including Err. With the onErr policy, the first Err is yielded and
+ * iteration stops ('stop'), errors are left out ('skip'), or passed to a dead-letter callback and left out.
+ * 
+ * @since 0.11.0
+ * @param {Iterable<I> | AsyncIterable<I>} items - items to map
+ * @param {(item: I, index: number) => U} fn - function returning a value, Result or Promise for either
+ * @param {StreamOptions} options - policy for Err results
+ * @returns {AsyncGenerator<Result<T, E>>} - async generator yielding the Result for each item
+ */
+const mapResults = /*#__PURE__*/ <I, U>(
+	items: Items<I>,
+	fn: (item: I, index: number) => U,
+	{ onErr }: StreamOptions<ItemError<U>> = {}
+): AsyncGenerator<Result<ItemValue<U>, ItemError<U>>, void, undefined> =>
+	drive(items, mapStepper(fn, onErr))
+
+/**
+ * Yield the values of Ok items of an iterable or async iterable, skipping Nil
+ * 
+ * @since 0.11.0
+ * @param {Iterable<I> | AsyncIterable<I>} items - Results, values or Promises for either
+ * @param {StreamOptions} options - policy for Err items: 'skip' (default), 'stop' or a dead-letter callback
+ * @returns {AsyncGenerator<T>} - async generator yielding the Ok values
+ */
+const filterOk = /*#__PURE__*/ <I>(
+	items: Items<I>,
+	{ onErr }: StreamOptions<ItemError<I>> = {}
+): AsyncGenerator<ItemValue<I>, void, undefined> =>
+	drive(items, okStepper(onErr))
+
+/**
+ * Yield the values of Ok items of an iterable or async iterable until the first Err, skipping Nil
+ * 
+ * @since 0.11.0
+ * @param {Iterable<I> | AsyncIterable<I>} items - Results, values or Promises for either
+ * @param {DeadLetter} [deadLetter] - callback for the Err that stopped the iteration
+ * @returns {AsyncGenerator<T>} - async generator yielding the Ok values
+ */
+const takeUntilErr = /*#__PURE__*/ <I>(
+	items: Items<I>,
+	deadLetter?: DeadLetter<ItemError<I>>
+): AsyncGenerator<ItemValue<I>, void, undefined> =>
+	drive(items, untilErrStepper(deadLetter))
+
+/**
+ * Collect the Ok values of an iterable or async iterable into a Result of an array, skipping Nil
+ * 
+ * @since 0.11.0
+ * @param {Iterable<I> | AsyncIterable<I>} items - Results, values or Promises for either
+ * @param {StreamOptions} options - policy for Err items: 'stop' (default) to resolve to the first Err, 'skip' or a dead-letter callback
+ * @returns {AsyncResult<T[], E>} - Ok of all collected values, or the first Err
+ */
+const collectResults = /*#__PURE__*/ <I>(
+	items: Items<I>,
+	{ onErr = 'stop' }: StreamOptions<ItemError<I>> = {}
+): AsyncResult<ItemValue<I>[], ItemError<I>> =>
+	new AsyncResult((async (): Promise<Result<ItemValue<I>[], ItemError<I>>> => {
+		const values: ItemValue<I>[] = []
+		let index = 0
+		try {
+			for await (const item of items) {
+				const res = await asyncResult(item)
+				if (isOk(res)) values.push(res.get() as ItemValue<I>)
+				else if (isErr(res)) {
+					if (onErr === 'stop') return res as Err<ItemError<I>>
+					await handleErr(onErr, res, index)
+				}
+				index++
+			}
+		} catch (error) {
+			return err(error) as Err<ItemError<I>>
+		}
+		return ok(values)
+	})())
+
+/* === Web Streams === */
+
+/**
+ * Create a TransformStream mapping each chunk through a sync or async function to its Result, like mapResults()
+ * 
+ * @since 0.11.0
+ * @param {(chunk: I, index: number) => U} fn - function returning a value, Result or Promise for either
+ * @param {StreamOptions} options - policy for Err results
+ * @returns {TransformStream<I, Result<T, E>>} - transform stream for pipeThrough()
+ */
+const mapResultsStream = /*#__PURE__*/ <I, U>(
+	fn: (chunk: I, index: number) => U,
+	{ onErr }: StreamOptions<ItemError<U>> = {}
+): TransformStream<I, Result<ItemValue<U>, ItemError<U>>> =>
+	transform(mapStepper(fn, onErr))
+
+/**
+ * Create a TransformStream passing on the values of Ok chunks, like filterOk()
+ * 
+ * @since 0.11.0
+ * @param {StreamOptions} options - policy for Err chunks: 'skip' (default), 'stop' or a dead-letter callback
+ * @returns {TransformStream<I, T>} - transform stream for pipeThrough()
+ */
+const filterOkStream = /*#__PURE__*/ <I>(
+	{ onErr }: StreamOptions<ItemError<I>> = {}
+): TransformStream<I, ItemValue<I>> =>
+	transform(okStepper(onErr))
+
+/**
+ * Create a TransformStream passing on the values of Ok chunks until the first Err, like takeUntilErr()
+ * 
+ * @since 0.11.0
+ * @param {DeadLetter} [deadLetter] - callback for the Err that terminated the stream
+ * @returns {TransformStream<I, T>} - transform stream for pipeThrough()
+ */
+const takeUntilErrStream = /*#__PURE__*/ <I>(
+	deadLetter?: DeadLetter<ItemError<I>>
+): TransformStream<I, ItemValue<I>> =>
+	transform(untilErrStepper(deadLetter))
+
+export {
+	type DeadLetter, type ErrPolicy, type StreamOptions,
+	mapResults, filterOk, takeUntilErr, collectResults,
+	mapResultsStream, filterOkStream, takeUntilErrStream,
+}
\ No newline at end of file
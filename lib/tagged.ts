@@ -0,0 +1,65 @@
+import { isError, isFunction } from "./util"
+
+/* === Types === */
+
+type TaggedError<Tag extends string = string> = Error & { readonly _tag: Tag }
+type ErrorFields = { message?: string, cause?: unknown }
+type TagOf<E> = E extends { readonly _tag: infer Tag extends string } ? Tag : never
+
+type TaggedErrorClass<Tag extends string, F extends {}> = {
+	new (...args: {} extends F ? [fields?: F & ErrorFields] : [fields: F & ErrorFields]): TaggedError<Tag> & Readonly<F>
+	readonly tag: Tag
+}
+
+/* === Tagged Errors === */
+
+/**
+ * Define an Error subclass with a `_tag` discriminant and typed payload fields
+ * 
+ * Payload fields are passed to the constructor as an object and assigned to the error instance,
+ * along with the optional standard `message` and `cause` properties.
+ * 
+ * @since 0.11.0
+ * @param {Tag} tag - unique tag of the error, also used as its name
+ * @param {string | ((fields: F) => string)} [message] - default message or a function to create it from the payload fields
+ * @returns {TaggedErrorClass<Tag, F>} - the error class
+ */
+const defineError = /*#__PURE__*/ <Tag extends string, F extends {} = {}>(
+	tag: Tag,
+	message?: string | ((fields: F) => string)
+): TaggedErrorClass<Tag, F> => {
+	class Tagged extends Error {
+		static readonly tag = tag
+		readonly _tag = tag
+
+		constructor({ message: msg, cause, ...fields }: F & ErrorFields = {} as F) {
+			super(
+				msg ?? (isFunction(message) ? message(fields as F) : message ?? tag),
+				cause === undefined ? undefined : { cause }
+			)
+			this.name = tag
+			Object.assign(this, fields)
+		}
+	}
+	return Tagged as unknown as TaggedErrorClass<Tag, F>
+}
+
+/**
+ * Check if a value is a tagged error, optionally with a given tag
+ * 
+ * @since 0.11.0
+ * @param {unknown} value - the value to check
+ * @param {string} [tag] - optional tag the error must have
+ * @returns {boolean} - true if the value is an Error with a `_tag` property matching the tag
+ */
+const isTagged = /*#__PURE__*/ <Tag extends string = string>(
+	value: unknown,
+	tag?: Tag
+): value is TaggedError<Tag> =>
+	isError(value) && '_tag' in value && typeof value._tag === 'string'
+		&& (tag === undefined || value._tag === tag)
+
+export {
+	type TaggedError, type ErrorFields, type TagOf, type TaggedErrorClass,
+	defineError, isTagged,
+}
\ No newline at end of file
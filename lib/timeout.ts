@@ -0,0 +1,71 @@
+import { type Clock, systemClock } from "./clock"
+import { isAbortSignal } from "./util"
+import { type MaybeResult, type OrError, type Result, abortable, task } from "./result"
+
+/* === Class TimeoutError === */
+
+/**
+ * Error when an async function or flow did not settle in time
+ * 
+ * @since 0.11.0
+ * @class TimeoutError
+ * @property {number} ms - the time limit in milliseconds
+ */
+class TimeoutError extends Error {
+	constructor(public readonly ms: number, message = `Timed out after ${ms}ms`) {
+		super(message)
+		this.name = 'TimeoutError'
+	}
+}
+
+/* === Timeout === */
+
+/**
+ * Start a timer that aborts the returned signal with a TimeoutError, combined with an optional outer signal
+ * 
+ * @since 0.11.0
+ * @param {number} ms - time limit in milliseconds
+ * @param {Clock} clock - clock to schedule the timer with
+ * @param {AbortSignal} [outer] - optional signal to abort with as well
+ * @returns {[AbortSignal, () => void]} - the combined signal and a function to clear the timer
+ */
+const deadline = /*#__PURE__*/ (
+	ms: number,
+	clock: Clock = systemClock,
+	outer?: AbortSignal
+): [AbortSignal, () => void] => {
+	const controller = new AbortController()
+	const id = clock.setTimeout(() => controller.abort(new TimeoutError(ms)), ms)
+	return [
+		outer ? AbortSignal.any([outer, controller.signal]) : controller.signal,
+		() => clock.clearTimeout(id)
+	]
+}
+
+/**
+ * Limit the time an async function may take to settle
+ * 
+ * Returns a wrapper that resolves to an Err<TimeoutError> when time runs out. The function always receives a signal
+ * that is aborted on timeout: an AbortSignal among the arguments is replaced with one that is aborted on timeout
+ * as well; otherwise the signal is appended as last argument. The wrapper can be passed to task() or used as a step in flow().
+ * 
+ * @since 0.11.0
+ * @param {number} ms - time limit in milliseconds
+ * @param {Clock} clock - clock to schedule the timer with
+ * @returns {(fn: (...args: A) => Promise<MaybeResult<T, E>>) => (...args: A) => Promise<Result<T, OrError<E> | TimeoutError>>} - function to wrap an async function with the time limit
+ */
+const timeout = /*#__PURE__*/ (ms: number, clock: Clock = systemClock) =>
+	<A extends any[], T, E extends Error = Error>(
+		fn: (...args: A) => Promise<MaybeResult<T, E>>
+	) => async (...args: A): Promise<Result<T, OrError<E> | TimeoutError>> => {
+		const outer = args.find(isAbortSignal)
+		const [signal, clear] = deadline(ms, clock, outer)
+		const params = (outer ? args.map(arg => arg === outer ? signal : arg) : [...args, signal]) as A
+		const res = await task<T, E>(
+			() => abortable(Promise.resolve().then(() => fn(...params)), signal)
+		)
+		clear()
+		return res as Result<T, OrError<E> | TimeoutError>
+	}
+
+export { TimeoutError, deadline, timeout }
\ No newline at end of file
@@ -0,0 +1,184 @@
+import { runEffect } from "./util"
+import { isOk } from "./ok"
+import { isNil } from "./nil"
+import { isErr } from "./err"
+import type { Result } from "./result"
+import { type Clock, systemClock } from "./clock"
+import { type ErrorObject, errorToObject } from "./cause"
+
+/* === Types === */
+
+type Outcome = 'ok' | 'nil' | 'err'
+
+type FlowInfo = {
+	id: number // unique id of the flow call
+	name: string // name from flow options, defaults to 'flow'
+	steps: number // number of steps
+}
+
+type FlowStartEvent = { flow: FlowInfo, time: number }
+type StepStartEvent = FlowStartEvent & { index: number, name: string }
+type StepEndEvent = StepStartEvent & { duration: number, outcome: Outcome, result: Result<unknown, Error> }
+type FlowEndEvent = FlowStartEvent & { duration: number, outcome: Outcome, result: Result<unknown, Error> }
+
+type FlowObserver = {
+	onFlowStart?: (event: FlowStartEvent) => void
+	onStepStart?: (event: StepStartEvent) => void
+	onStepEnd?: (event: StepEndEvent) => void
+	onFlowEnd?: (event: FlowEndEvent) => void
+}
+
+type Span = {
+	name: string
+	start: number
+	end?: number
+	duration?: number
+	outcome?: Outcome
+	error?: ErrorObject | unknown
+	children: Span[]
+}
+
+/* === Internal === */
+
+type Tracer = {
+	stepStart: (index: number, fn: unknown) => void
+	stepEnd: (index: number, fn: unknown, res: Result<unknown, Error>) => void
+	flowEnd: (res: Result<unknown, Error>) => void
+}
+
+const observers = new Set<FlowObserver>()
+let flowCount = 0
+
+const outcome = (res: Result<unknown, Error>): Outcome =>
+	isOk(res) ? 'ok' : isNil(res) ? 'nil' : 'err'
+
+const stepName = (index: number, fn: unknown): string =>
+	(fn as Function)?.name || `step ${index + 1}`
+
+/**
+ * Create a tracer notifying the global observers and the observer of a flow call, or undefined if there are none
+ * 
+ * @param {FlowObserver} [observer] - observer of the flow call
+ * @param {string} name - name of the flow
+ * @param {number} steps - number of steps
+ * @param {Clock} clock - clock to measure durations with
+ * @returns {Tracer | undefined} - the tracer, or undefined to skip all instrumentation
+ */
+const createTracer = (
+	observer: FlowObserver | undefined,
+	name = 'flow',
+	steps: number,
+	clock: Clock = systemClock
+): Tracer | undefined => {
+	if (!observer && !observers.size) return undefined
+	const targets = observer ? [...observers, observer] : [...observers]
+	const notify = <K extends keyof FlowObserver>(hook: K, event: Parameters<NonNullable<FlowObserver[K]>>[0]) => {
+		for (const target of targets) {
+			const fn = target[hook] as ((event: unknown) => void) | undefined
+			if (fn) runEffect(fn.bind(target), event)
+		}
+	}
+	const flow: FlowInfo = { id: ++flowCount, name, steps }
+	const start = clock.now()
+	let stepStart = start
+	notify('onFlowStart', { flow, time: start })
+	return {
+		stepStart: (index, fn) => {
+			stepStart = clock.now()
+			notify('onStepStart', { flow, time: stepStart, index, name: stepName(index, fn) })
+		},
+		stepEnd: (index, fn, result) => {
+			const time = clock.now()
+			notify('onStepEnd', {
+				flow, time, index, name: stepName(index, fn),
+				duration: time - stepStart, outcome: outcome(result), result,
+			})
+		},
+		flowEnd: result => {
+			const time = clock.now()
+			notify('onFlowEnd', { flow, time, duration: time - start, outcome: outcome(result), result })
+		},
+	}
+}
+
+/* === Exported Functions === */
+
+/**
+ * Register an observer for all flow() calls
+ * 
+ * @since 0.11.0
+ * @param {FlowObserver} observer - observer with hooks for flow and step start and end
+ * @returns {() => void} - function to unregister the observer
+ */
+const observe = /*#__PURE__*/ (observer: FlowObserver): () => void => {
+	observers.add(observer)
+	return () => { observers.delete(observer) }
+}
+
+/* === Class SpanRecorder === */
+
+/**
+ * Flow observer recording a span for each flow with a child span for each step
+ * 
+ * @since 0.11.0
+ * @class SpanRecorder
+ * @property {Span[]} spans - recorded flow spans in start order
+ */
+class SpanRecorder implements FlowObserver {
+	readonly spans: Span[] = []
+	private open = new Map<number, Span>()
+
+	onFlowStart({ flow, time }: FlowStartEvent): void {
+		const span: Span = { name: flow.name, start: time, children: [] }
+		this.spans.push(span)
+		this.open.set(flow.id, span)
+	}
+
+	onStepStart({ flow, time, name }: StepStartEvent): void {
+		this.open.get(flow.id)?.children.push({ name, start: time, children: [] })
+	}
+
+	onStepEnd(event: StepEndEvent): void {
+		const span = this.open.get(event.flow.id)?.children.at(-1)
+		if (span) SpanRecorder.close(span, event)
+	}
+
+	onFlowEnd(event: FlowEndEvent): void {
+		const span = this.open.get(event.flow.id)
+		if (span) SpanRecorder.close(span, event)
+		this.open.delete(event.flow.id)
+	}
+
+	/**
+	 * Remove all recorded spans
+	 * 
+	 * @since 0.11.0
+	 */
+	clear(): void {
+		this.spans.length = 0
+		this.open.clear()
+	}
+
+	/**
+	 * Get the recorded span tree for JSON export
+	 * 
+	 * @since 0.11.0
+	 * @returns {Span[]} - the recorded flow spans
+	 */
+	toJSON(): Span[] {
+		return this.spans
+	}
+
+	private static close(span: Span, { time, duration, outcome, result }: StepEndEvent | FlowEndEvent) {
+		span.end = time
+		span.duration = duration
+		span.outcome = outcome
+		if (isErr(result)) span.error = errorToObject(result.error, false)
+	}
+}
+
+export {
+	type Outcome, type FlowInfo, type FlowStartEvent, type StepStartEvent, type StepEndEvent, type FlowEndEvent,
+	type FlowObserver, type Span, type Tracer,
+	createTracer, observe, SpanRecorder,
+}
\ No newline at end of file
@@ -1,13 +1,30 @@
+import type { Result } from "./result"
+
 /* === Types === */
 
-type Cases<T, Error> = {
+type TagCases<E> = {
+	[K in E extends { readonly _tag: infer Tag extends string } ? Tag : never]?: (error: Extract<E, { _tag: K }>) => any
+}
+
+type Cases<T, E extends Error = Error> = {
 	Ok?: (value: T) => any
 	Nil?: () => any
-	Err?: (error: Error) => any
+	Err?: ((error: E) => any) | TagCases<E>
 	Gone?: () => any
-	// default?: (value: T) => any
+	default?: (result: Result<T, E>) => any
 }
 
+type Cloner<T = any> = (value: T) => T
+
+/* === Constants === */
+
+const CLONE = Symbol.for('flowsure.clone')
+
+/* === Internal === */
+
+// registered cloners by class; null marks immutable classes
+const cloners = new Map<Function, Cloner | null>()
+
 /* === Utility Functions === */
 
 const isFunction = /*#__PURE__*/ (value: unknown): value is (...args: any[]) => any =>
@@ -29,24 +46,76 @@ const isInstanceOf = /*#__PURE__*/ <T>(type: new (...args: any[]) => T) =>
 
 const isError = isInstanceOf(Error)
 
+const isAbortSignal = isInstanceOf(AbortSignal)
+
 const log = (msg: string, logger: (...args: any[]) => void = console.log) =>
 	(...args: any[]) => {
         logger(msg, ...args)
 		return args[0]
 	}
 
+const isImmutable = /*#__PURE__*/ (value: object): boolean => {
+	for (let proto = Object.getPrototypeOf(value); proto; proto = Object.getPrototypeOf(proto))
+		if (cloners.get(proto.constructor) === null) return true
+	return false
+}
+
+const registerCloner = /*#__PURE__*/ <T>(type: abstract new (...args: any[]) => T, cloner: Cloner<T>): () => void => {
+	cloners.set(type, cloner)
+	return () => { if (cloners.get(type) === cloner) cloners.delete(type) }
+}
+
+const registerImmutable = /*#__PURE__*/ (...types: (abstract new (...args: any[]) => unknown)[]): () => void => {
+	for (const type of types) cloners.set(type, null)
+	return () => { for (const type of types) if (cloners.get(type) === null) cloners.delete(type) }
+}
+
+// values that cannot be cloned and are commonly passed around by reference
+registerImmutable(...[
+	Promise, WeakMap, WeakSet, WeakRef,
+	globalThis.AbortSignal, globalThis.ReadableStream, globalThis.Request, globalThis.Response,
+].filter(isDefined))
+
 const tryClone = /*#__PURE__*/ <T>(value: T, warn = true): T => {
     if (!isMutable(value)) return value
+	if (isFunction(value[CLONE])) return value[CLONE]() as T
+	const proto = Object.getPrototypeOf(value)
+	// cloners only apply to their exact class, as they would turn subclass instances into base class instances
+	const cloner = cloners.get(proto?.constructor)
+	if (cloner) return cloner(value)
+	if (isImmutable(value)) return value
     try {
-        return structuredClone(value)
+        const clone = structuredClone(value)
+		if (warn && proto && Object.getPrototypeOf(clone) !== proto)
+			log('Cloned value lost its prototype, register a cloner or mark its class as immutable:', console.warn)(value)
+        return clone
     } catch {
-		if (warn) log('Failed to clone value:', console.warn)(value)
+		if (warn) log('Failed to clone value, register a cloner or mark its class as immutable:', console.warn)(value)
         return value
     }
 }
 
+const runEffect = /*#__PURE__*/ (fn: (...args: any[]) => unknown, ...args: any[]): Promise<void> | void => {
+	const report = log('Error in side effect:', console.error)
+	try {
+		const out = fn(...args)
+		if (isFunction((out as PromiseLike<unknown>)?.then))
+			return Promise.resolve(out).then(() => {}, report)
+	} catch (error) {
+		report(error)
+	}
+}
+
+const deepFreeze = /*#__PURE__*/ <T>(value: T): T => {
+	if (!isMutable(value) || Object.isFrozen(value) || ArrayBuffer.isView(value) || isImmutable(value)) return value
+	Object.freeze(value)
+	for (const key of Reflect.ownKeys(value)) deepFreeze(value[key])
+	return value
+}
+
 export {
-	type Cases,
+	type TagCases, type Cases, type Cloner, CLONE,
 	isFunction, isAsyncFunction, isDefined, isMutable,
-	isInstanceOf, isError, log, tryClone
+	isInstanceOf, isError, isAbortSignal, log, tryClone, deepFreeze,
+	registerCloner, registerImmutable, runEffect,
 }
\ No newline at end of file
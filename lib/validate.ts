@@ -0,0 +1,89 @@
+import { isFunction } from "./util"
+import { err } from "./err"
+import { ok } from "./ok"
+import type { Nil } from "./nil"
+import { type Result, type ResultValue, result } from "./result"
+
+/* === Types === */
+
+type Path = (string | number)[]
+
+type Check = unknown
+type Checks = Readonly<Record<string, Check>> | readonly Check[]
+type CheckResult<R> = R extends Nil | null | undefined ? undefined : ResultValue<R>
+type CheckValue<C> = C extends (...args: any[]) => infer R ? CheckResult<R> : CheckResult<C>
+
+/* === Class ValidationError === */
+
+/**
+ * Error of a failed check with the path where it happened
+ * 
+ * @since 0.11.0
+ * @class ValidationError<E extends Error>
+ * @property {Path} path - keys and indices leading to the failed value
+ * @property {E} cause - the original error of the check
+ */
+class ValidationError<E extends Error = Error> extends Error {
+	declare cause: E
+
+	constructor(public readonly path: Path, cause: E) {
+		super(path.length ? `${formatPath(path)}: ${cause.message}` : cause.message, { cause })
+		this.name = 'ValidationError'
+	}
+}
+
+/* === Internal Functions === */
+
+const isValidationErrors = (error: Error): error is AggregateError & { errors: ValidationError[] } =>
+	error instanceof AggregateError
+		&& error.errors.length > 0
+		&& error.errors.every(e => e instanceof ValidationError)
+
+/* === Exported Functions === */
+
+/**
+ * Format a path like user.address[2].zip
+ * 
+ * @since 0.11.0
+ * @param {Path} path - keys and indices
+ * @returns {string} - the formatted path
+ */
+const formatPath = /*#__PURE__*/ (path: Path): string =>
+	path.reduce<string>((acc, key) => typeof key === 'number' ? `${acc}[${key}]`
+		: acc ? `${acc}.${key}`
+		: key, '')
+
+/**
+ * Run independent checks and collect all their failures instead of stopping at the first one
+ * 
+ * Each check is a Result, a value or a function returning one. Nil results in an undefined value.
+ * Nested validate() results are flattened, with the paths of their errors prefixed by the key of the check.
+ * 
+ * @since 0.11.0
+ * @param {C} checks - array, tuple or record of checks
+ * @returns {Result<{ [K in keyof C]: CheckValue<C[K]> }, AggregateError>} - Ok with all values in the same shape, or Err<AggregateError> with a ValidationError for each failure
+ */
+const validate = /*#__PURE__*/ <C extends Checks>(
+	checks: C
+): Result<{ -readonly [K in keyof C]: CheckValue<C[K]> }, AggregateError> => {
+	const values: Record<string, unknown> = {}
+	const errors: ValidationError[] = []
+	for (const [key, check] of Object.entries(checks)) {
+		const path = Array.isArray(checks) ? [Number(key)] : [key]
+		const res = result(() => isFunction(check) ? check() : check)
+		res.match({
+			Ok: value => { values[key] = value },
+			Err: (error: Error) => errors.push(...(isValidationErrors(error)
+				? error.errors.map(e => new ValidationError([...path, ...e.path], e.cause))
+				: [new ValidationError(path, error)])),
+		})
+	}
+	if (errors.length)
+		return err(new AggregateError(errors, `Validation failed with ${errors.length} error${errors.length === 1 ? '' : 's'}`))
+	return ok((Array.isArray(checks) ? checks.map((_, i) => values[i]) : values) as { -readonly [K in keyof C]: CheckValue<C[K]> })
+}
+
+export {
+	type Path, type Check, type Checks, type CheckValue,
+	ValidationError, formatPath, validate,
+}
\ No newline at end of file
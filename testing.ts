@@ -0,0 +1,153 @@
+import { expect } from "bun:test"
+import { type Result, isOk, isNil, isErr, isResult, isInstanceOf, errorToObject } from "./index"
+
+/* === Types === */
+
+type ErrorMatcher = string | RegExp | Error | (abstract new (...args: any[]) => Error)
+type MatcherResult = { pass: boolean, message: () => string }
+type ResultMatchers<R = unknown> = {
+	toBeOk(value?: unknown): R // Ok, optionally with a structurally equal value
+	toBeNil(): R // Nil
+	toBeErr(expected?: ErrorMatcher): R // Err, optionally with an error of a class, with a message or matching a pattern
+}
+
+declare module "bun:test" {
+	interface Matchers<T> extends ResultMatchers<void> {}
+}
+
+/* === Internal Functions === */
+
+const isRegExp = isInstanceOf(RegExp)
+
+const deepEqual = (a: unknown, b: unknown, seen = new Map<object, object>()): boolean => {
+	if (Object.is(a, b)) return true
+	if (isResult(a) || isResult(b)) return isResult(a) && isResult(b) && equals(a, b)
+	if (typeof a !== 'object' || typeof b !== 'object' || !a || !b) return false
+	if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false
+	if (seen.get(a) === b) return true
+	seen.set(a, b)
+	if (a instanceof Error && (a.name !== (b as Error).name || a.message !== (b as Error).message
+		|| !deepEqual(a.cause, (b as Error).cause, seen))) return false
+	if (a instanceof Date) return a.getTime() === (b as Date).getTime()
+	if (isRegExp(a)) return String(a) === String(b)
+	if (a instanceof Map) return a.size === (b as Map<unknown, unknown>).size
+		&& [...a].every(([key, value]) => (b as Map<unknown, unknown>).has(key)
+			&& deepEqual(value, (b as Map<unknown, unknown>).get(key), seen))
+	if (a instanceof Set) return a.size === (b as Set<unknown>).size
+		&& [...a].every(value => (b as Set<unknown>).has(value))
+	const keys = Object.keys(a)
+	return keys.length === Object.keys(b).length
+		&& keys.every(key => Object.hasOwn(b, key)
+			&& deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key], seen))
+}
+
+const inline = (value: unknown): string =>
+	Bun.inspect(value).replace(/,(?=\s*\n\s*[}\]])/g, '').replace(/\s*\n\s*/g, ' ')
+
+const describeResult = (value: unknown): string =>
+	isOk(value) ? (value.gone ? 'Ok (consumed)' : `Ok(${inline(value.peek())})`)
+		: isNil(value) ? 'Nil'
+		: isErr(value) ? `Err(${value.error.name}: ${value.error.message})`
+		: `${inline(value)} (not a Result)`
+
+const describeError = (expected: ErrorMatcher): string =>
+	typeof expected === 'string' ? `Err with message ${inline(expected)}`
+		: isRegExp(expected) ? `Err with message matching ${expected}`
+		: expected instanceof Error ? `Err(${expected.name}: ${expected.message})`
+		: `Err of class ${expected.name}`
+
+/**
+ * Compare the lines of two inspected values
+ * 
+ * @since 0.11.0
+ * @param {unknown} expected - the expected value
+ * @param {unknown} received - the received value
+ * @returns {string} - lines only in expected prefixed with "-", lines only in received with "+", common lines indented
+ */
+const diff = (expected: unknown, received: unknown): string => {
+	const a = Bun.inspect(expected).split('\n')
+	const b = Bun.inspect(received).split('\n')
+	const lcs = a.map(() => new Array<number>(b.length + 1).fill(0))
+	lcs.push(new Array<number>(b.length + 1).fill(0))
+	for (let i = a.length - 1; i >= 0; i--)
+		for (let j = b.length - 1; j >= 0; j--)
+			lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+	const lines = ['- Expected', '+ Received', '']
+	let i = 0, j = 0
+	while (i < a.length || j < b.length) {
+		if (i < a.length && j < b.length && a[i] === b[j]) {
+			lines.push(`  ${a[i++]}`)
+			j++
+		} else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) lines.push(`- ${a[i++]}`)
+		else lines.push(`+ ${b[j++]}`)
+	}
+	return lines.join('\n')
+}
+
+const report = (pass: boolean, expected: string, received: unknown, details = ''): MatcherResult => ({
+	pass,
+	message: () => (pass
+		? `Expected ${describeResult(received)} not to be ${expected}`
+		: `Expected ${expected}, received ${describeResult(received)}`
+	) + (details && !pass ? `\n\n${details}` : '')
+})
+
+/* === Exported Functions === */
+
+/**
+ * Compare two Results structurally
+ * 
+ * Ok values are compared deeply without consuming them; nested Results are compared structurally as well.
+ * Errors are equal if they have the same class, name, message, cause and own enumerable properties.
+ * 
+ * @since 0.11.0
+ * @param {Result<unknown, Error>} a - the first Result
+ * @param {Result<unknown, Error>} b - the second Result
+ * @returns {boolean} - true if both are Nil, both are Ok with equal values, or both are Err with equal errors
+ */
+const equals = /*#__PURE__*/ (a: Result<unknown, Error>, b: Result<unknown, Error>): boolean =>
+	isOk(a) ? isOk(b) && (a.gone || b.gone ? a.gone === b.gone : deepEqual(a.peek(), b.peek()))
+		: isNil(a) ? isNil(b)
+		: isErr(a) && isErr(b) && deepEqual(a.error, b.error)
+
+/**
+ * Matchers for Results to register with expect.extend()
+ * 
+ * Registered automatically when this module is imported in bun:test.
+ * 
+ * @since 0.11.0
+ */
+const resultMatchers = {
+	toBeOk(received: unknown, value?: unknown): MatcherResult {
+		if (arguments.length < 2) return report(isOk(received), 'Ok', received)
+		const expected = `Ok(${inline(value)})`
+		if (!isOk(received) || received.gone) return report(false, expected, received)
+		const actual = received.peek()
+		return report(deepEqual(actual, value), expected, received, diff(value, actual))
+	},
+
+	toBeNil(received: unknown): MatcherResult {
+		return report(isNil(received), 'Nil', received)
+	},
+
+	toBeErr(received: unknown, expected?: ErrorMatcher): MatcherResult {
+		if (expected === undefined) return report(isErr(received), 'Err', received)
+		if (!isErr(received)) return report(false, describeError(expected), received)
+		const { error } = received
+		const pass = typeof expected === 'string' ? error.message === expected
+			: isRegExp(expected) ? expected.test(error.message)
+			: expected instanceof Error ? deepEqual(error, expected)
+			: error instanceof expected
+		return report(pass, describeError(expected), received,
+			typeof expected === 'string' ? diff(expected, error.message)
+				: expected instanceof Error ? diff(errorToObject(expected, false), errorToObject(error, false))
+				: '')
+	},
+}
+
+expect.extend(resultMatchers)
+
+export {
+	type ErrorMatcher, type MatcherResult, type ResultMatchers,
+	equals, resultMatchers,
+}
\ No newline at end of file
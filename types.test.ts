@@ -0,0 +1,106 @@
+import { describe, test, expect } from "bun:test";
+import {
+	type Result, type Maybe, type Nil, type Err, type WithHistory,
+	ok, nil, err, maybe, task, retry, validate, defineError, match, matchStrict, zip, zipWith, lift,
+} from "./index";
+
+/* === Utility Functions === */
+
+// Compile-time check that two types are identical, not only assignable to each other
+type Equal<A, B> = (<G>() => G extends A ? 1 : 2) extends (<G>() => G extends B ? 1 : 2) ? true : false;
+
+// Compile-time check that a value has exactly the expected type; fails with a missing argument otherwise
+const expectType = <T>() => <V>(value: V, ..._exact: Equal<V, T> extends true ? [] : [never]): V => value;
+
+// Tests for the typed error channel
+
+describe("Error Channel Types", () => {
+	test("task() falls back to Error if the function only throws", async () => {
+		const res = await task(() => Promise.reject(new Error("Failed")))
+			.catch(error => ok(expectType<Error>()(error).message));
+		expect(res.get()).toBe("Failed");
+	});
+
+	test("retry() falls back to Error if the function only throws", async () => {
+		const res = await retry(async () => { throw new Error("Failed"); }, { attempts: 1 });
+		expect(res.catch(error => ok(expectType<WithHistory<Error>>()(error).message)).get()).toBe("Failed");
+	});
+});
+
+// Tests for validation
+
+describe("Validation Types", () => {
+	test("validate() types Nil checks as undefined values", () => {
+		const res = validate({ nickname: nil(), name: ok("Alice") });
+		// @ts-expect-error - nickname is undefined, not a string
+		const strict: Result<{ nickname: string, name: string }> = res;
+		expect(strict).toBe(res as unknown as typeof strict);
+		expect(expectType<Result<{ nickname: undefined, name: string }, AggregateError>>()(res).get()).toEqual({ nickname: undefined, name: "Alice" });
+	});
+});
+
+// Tests for exhaustive matching
+
+describe("Exhaustive Matching Types", () => {
+	const NotFound = defineError("NotFound");
+	const Invalid = defineError("Invalid");
+	type AppError = InstanceType<typeof NotFound> | InstanceType<typeof Invalid>;
+	const load = (n: number): Result<number, AppError> =>
+		n > 0 ? ok(n) : n === 0 ? nil() : err(new Invalid());
+
+	test("matchStrict() accepts shared cases for Ok, Nil and Err alone", () => {
+		const cases = { Ok: (v: number) => `ok ${v}`, Nil: () => "nil", Err: (e: Error) => e.message };
+		expect(expectType<string>()(matchStrict(ok(1), cases))).toBe("ok 1");
+		expect(expectType<string>()(matchStrict(nil(), cases))).toBe("nil");
+		expect(expectType<string>()(matchStrict(err("Failed"), cases))).toBe("Failed");
+	});
+
+	test("matchStrict() infers value and error types for the cases", () => {
+		const res = matchStrict(load(2), { Ok: v => v * 2, Nil: () => "none", Err: e => e._tag });
+		expect(expectType<number | string>()(res)).toBe(4);
+	});
+
+	test("matchStrict() requires cases for Ok, Nil and Err or a default case", () => {
+		// @ts-expect-error - missing Err case
+		expect(() => matchStrict(load(-1), { Ok: v => v, Nil: () => 0 })).toThrow("No case matched");
+		// @ts-expect-error - missing Nil case
+		expect(() => matchStrict(load(0), { Ok: v => v, Err: () => 0 })).toThrow("No case matched");
+		expect(matchStrict(load(0), { Ok: v => v, default: () => 0 })).toBe(0);
+	});
+
+	test("matchStrict() requires a case for every error tag", () => {
+		// @ts-expect-error - missing Invalid tag
+		expect(() => matchStrict(load(-1), { Ok: () => 1, Nil: () => 0, Err: { NotFound: () => 2 } }))
+			.toThrow("No case matched");
+		const res = matchStrict(load(-1), { Ok: () => 1, Nil: () => 0, Err: { NotFound: () => 2, Invalid: () => 3 } });
+		expect(expectType<number>()(res)).toBe(3);
+	});
+
+	test("match() passes unmatched Results through in the inferred type", () => {
+		const res = match(load(0), { Ok: v => v * 2 });
+		expect(expectType<number | Nil | Err<AppError>>()(res)).toEqual(nil());
+	});
+});
+
+
+// Tests for zip(), zipWith() and lift()
+
+describe("Zip Types", () => {
+	test("zip() returns a Maybe if no argument can be an Err", () => {
+		const position: Maybe<[string, number]> = zip(maybe("x"), maybe(1));
+		expect(expectType<Maybe<[string, number]>>()(zip(maybe("x"), 1)).get()).toEqual(["x", 1]);
+		expect(position.get()).toEqual(["x", 1]);
+	});
+
+	test("zip() returns a Result with the error types of its arguments", () => {
+		const res = zip(maybe("x"), ok(1) as Result<number, RangeError>);
+		expect(expectType<Result<[string, number], RangeError>>()(res).get()).toEqual(["x", 1]);
+	});
+
+	test("zipWith() and lift() fall back to Error for thrown errors", () => {
+		const res = zipWith((a: string, b: number) => a.repeat(b), maybe("x"), maybe(2));
+		expect(expectType<Result<string, Error>>()(res).get()).toBe("xx");
+		const repeat = lift((a: string, b: number) => a.repeat(b));
+		expect(expectType<Result<string, Error>>()(repeat(maybe("y"), 3)).get()).toBe("yyy");
+	});
+});
\ No newline at end of file